@@ -0,0 +1,51 @@
+import type { DryRunResult } from "@/core/dry-run";
+import { formatValue } from "@/core/dry-run";
+import { cn } from "@/lib/utils";
+
+interface DiffPreviewProps {
+  preview: DryRunResult;
+}
+
+export function DiffPreview({ preview }: DiffPreviewProps) {
+  const failures = preview.calls.filter((c) => !c.outcome.success);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-mono uppercase tracking-widest text-muted-foreground">
+        Dry Run · {preview.rolledBack ? "rolled back" : `${preview.diffs.length} change${preview.diffs.length === 1 ? "" : "s"}`}
+      </h4>
+      <div className="p-4 rounded-lg border border-neon-cyan/20 bg-neon-cyan/5 font-mono text-xs space-y-3">
+        {preview.rolledBack && <p className="text-neon-red">A call would fail, so execution would roll back — no changes.</p>}
+        {!preview.rolledBack && preview.diffs.length === 0 && (
+          <p className="text-muted-foreground">No changes to tasks or workflows.</p>
+        )}
+        {preview.diffs.map((diff) => (
+          <div key={`${diff.entity}:${diff.id}`}>
+            <p className={cn("font-semibold", diff.change === "created" ? "text-neon-green" : "text-neon-cyan")}>
+              {diff.change === "created" ? "+ new" : "~"} {diff.entity} {diff.change === "created" ? `"${diff.name}"` : diff.id}
+              {diff.change === "updated" && <span className="font-normal text-muted-foreground"> · {diff.name}</span>}
+            </p>
+            {diff.fields.map((f) => (
+              <p key={f.field} className="pl-4">
+                <span className="text-muted-foreground">{f.field}: </span>
+                {diff.change === "updated" && (
+                  <>
+                    <span className="text-neon-red line-through">{formatValue(f.before)}</span>
+                    <span className="text-muted-foreground"> → </span>
+                  </>
+                )}
+                <span className="text-neon-green break-all">{formatValue(f.after)}</span>
+              </p>
+            ))}
+          </div>
+        ))}
+        {failures.map(({ call, outcome }, i) => (
+          <p key={i} className="text-neon-red">✗ {call.toolName} would fail — {outcome.message}</p>
+        ))}
+        {preview.blocked.map(({ call, rejection }, i) => (
+          <p key={`blocked-${i}`} className="text-neon-red">⊘ {call.toolName} would be blocked — {rejection.message}</p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -42,7 +42,10 @@ export function ExecutionLogs({ logs }: ExecutionLogsProps) {
           <span className={cn("w-16 shrink-0 font-semibold", typeStyles[log.type])}>
             [{typeLabels[log.type]}]
           </span>
-          <span className="text-foreground/80">{log.message}</span>
+          <span className="text-foreground/80 flex-1">{log.message}</span>
+          <span className="text-muted-foreground/40 shrink-0" title={`hash ${log.hash}\nprev ${log.prevHash}`}>
+            #{log.seq} {log.hash.slice(0, 8)}
+          </span>
         </div>
       ))}
     </div>
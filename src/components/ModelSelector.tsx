@@ -7,6 +7,7 @@ const providerIcons: Record<string, string> = {
   openai: "⚡",
   anthropic: "🧠",
   google: "✦",
+  scripted: "▶",
 };
 
 interface ModelSelectorProps {
@@ -0,0 +1,52 @@
+import type { RunRecord } from "@/core/run-history";
+import { cn } from "@/lib/utils";
+
+interface RunHistoryProps {
+  runs: RunRecord[];
+  activeRunId: string | null;
+  onOpen: (run: RunRecord) => void;
+}
+
+function runStatus(run: RunRecord): { label: string; className: string } {
+  if (run.error) return { label: "failed", className: "bg-neon-red/10 text-neon-red" };
+  if (run.execution?.approvedCalls.some((c) => c.status === "failed")) {
+    return { label: "rolled back", className: "bg-neon-red/10 text-neon-red" };
+  }
+  if (run.execution) return { label: "executed", className: "bg-neon-green/10 text-neon-green" };
+  return { label: "planned", className: "bg-neon-amber/10 text-neon-amber" };
+}
+
+export function RunHistory({ runs, activeRunId, onOpen }: RunHistoryProps) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs font-mono uppercase tracking-widest text-muted-foreground mb-3">History</h3>
+      {runs.length === 0 && <p className="text-xs font-mono text-muted-foreground/60">No runs yet.</p>}
+      {runs.map((run) => {
+        const status = runStatus(run);
+        return (
+          <button
+            key={run.id}
+            onClick={() => onOpen(run)}
+            className={cn(
+              "w-full text-left p-3 rounded-lg border transition-all duration-200",
+              activeRunId === run.id
+                ? "border-primary/40 bg-primary/5"
+                : "border-border bg-card hover:border-muted-foreground/20"
+            )}
+          >
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-mono text-muted-foreground">
+                {new Date(run.createdAt).toLocaleString("en", { hour12: false })}
+              </span>
+              <span className={cn("text-xs font-mono px-1.5 py-0.5 rounded", status.className)}>{status.label}</span>
+            </div>
+            <p className="text-xs font-mono text-foreground truncate">{run.request.input}</p>
+            <p className="text-xs font-mono text-muted-foreground/70 mt-1">
+              {run.request.agent} · {run.model}
+            </p>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
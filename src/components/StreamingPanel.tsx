@@ -0,0 +1,43 @@
+import type { StreamSnapshot } from "@/core/streaming";
+import { cn } from "@/lib/utils";
+
+interface StreamingPanelProps {
+  turn: number;
+  snapshot: StreamSnapshot;
+}
+
+export function StreamingPanel({ turn, snapshot }: StreamingPanelProps) {
+  return (
+    <div className="p-4 rounded-lg border border-neon-amber/30 bg-neon-amber/5 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-mono uppercase tracking-widest text-neon-amber">Live · Turn {turn}</h4>
+        <span className="w-2 h-2 rounded-full bg-neon-amber animate-pulse-glow" />
+      </div>
+
+      {snapshot.reasoning && (
+        <p className="text-sm text-foreground/70 font-mono whitespace-pre-wrap">
+          {snapshot.reasoning}
+          {!snapshot.done && snapshot.toolCalls.length === 0 && <span className="animate-pulse">▍</span>}
+        </p>
+      )}
+
+      {snapshot.toolCalls.map((call) => (
+        <div
+          key={call.id}
+          className={cn(
+            "p-3 rounded-lg border font-mono text-xs",
+            call.complete ? "border-neon-green/20 bg-neon-green/5" : "border-border bg-card"
+          )}
+        >
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-semibold text-foreground">{call.toolName}</span>
+            <span className={cn("text-xs", call.complete ? "text-neon-green" : "text-muted-foreground")}>
+              {call.complete ? "received" : "streaming…"}
+            </span>
+          </div>
+          <pre className="text-muted-foreground overflow-x-auto whitespace-pre-wrap break-all">{call.argumentsText}</pre>
+        </div>
+      ))}
+    </div>
+  );
+}
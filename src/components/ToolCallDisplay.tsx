@@ -1,13 +1,22 @@
-  import type { ToolCall } from "@/core/types";
+  import type { ToolCall, ToolExecutionResult } from "@/core/types";
+import { useState } from "react";
+import { describeDecision } from "@/core/policy-engine";
+import type { ReviewInput } from "@/core/tool-review";
 import { cn } from "@/lib/utils";
 
+function isExecutionResult(result: unknown): result is ToolExecutionResult {
+  return typeof result === "object" && result !== null && "success" in result && "message" in result;
+}
+
 interface ToolCallDisplayProps {
   calls: ToolCall[];
   title: string;
   variant: "approved" | "blocked";
+  /** When set, each call gets Approve / Reject / Edit controls. Returns validation errors, if any. */
+  onReview?: (index: number, decision: Omit<ReviewInput, "reviewer">) => string[];
 }
 
-export function ToolCallDisplay({ calls, title, variant }: ToolCallDisplayProps) {
+export function ToolCallDisplay({ calls, title, variant, onReview }: ToolCallDisplayProps) {
   if (calls.length === 0) return null;
 
   return (
@@ -37,7 +46,9 @@ export function ToolCallDisplay({ calls, title, variant }: ToolCallDisplayProps)
             </span>
             <span className={cn(
               "px-2 py-0.5 rounded text-xs",
-              variant === "approved" ? "bg-neon-green/10 text-neon-green" : "bg-neon-red/10 text-neon-red"
+              call.status === "reverted"
+                ? "bg-neon-amber/10 text-neon-amber"
+                : variant === "approved" && call.status !== "failed" ? "bg-neon-green/10 text-neon-green" : "bg-neon-red/10 text-neon-red"
             )}>
               {call.status}
             </span>
@@ -45,8 +56,97 @@ export function ToolCallDisplay({ calls, title, variant }: ToolCallDisplayProps)
           <pre className="text-muted-foreground overflow-x-auto">
             {JSON.stringify(call.arguments, null, 2)}
           </pre>
+          {call.policy?.effect === "require_approval" && call.status === "approved" && (
+            <p className="mt-2 text-neon-amber">⚠ Requires explicit approval — {describeDecision(call.policy)}</p>
+          )}
+          {call.review && (
+            <p className={cn("mt-2", call.review.decision === "approved" ? "text-neon-green/80" : "text-neon-red")}>
+              {call.review.decision === "approved" ? "✓ Approved" : "✗ Rejected"} by {call.review.reviewer}
+              {call.review.originalArguments && " · arguments edited"}
+            </p>
+          )}
+          {onReview && <ReviewControls call={call} onReview={(decision) => onReview(i, decision)} />}
+          {call.rejection && (
+            <p className="mt-2 text-neon-red">→ {call.rejection.message}</p>
+          )}
+          {isExecutionResult(call.result) && (
+            <p className={cn("mt-2", call.result.success ? "text-neon-green/80" : "text-neon-red")}>
+              → {call.result.message}
+            </p>
+          )}
         </div>
       ))}
     </div>
   );
 }
+
+function ReviewControls({
+  call,
+  onReview,
+}: {
+  call: ToolCall;
+  onReview: (decision: Omit<ReviewInput, "reviewer">) => string[];
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const submit = (decision: ReviewInput["decision"]) => {
+    if (draft === null || decision === "rejected") {
+      setErrors(onReview({ decision }));
+      setDraft(null);
+      return;
+    }
+    let args: unknown;
+    try {
+      args = JSON.parse(draft);
+    } catch {
+      setErrors(["arguments are not valid JSON"]);
+      return;
+    }
+    const problems = typeof args === "object" && args !== null && !Array.isArray(args)
+      ? onReview({ decision, arguments: args as Record<string, unknown> })
+      : ["arguments must be a JSON object"];
+    setErrors(problems);
+    if (problems.length === 0) setDraft(null);
+  };
+
+  const button = "px-2 py-0.5 rounded border transition-all";
+  return (
+    <div className="mt-2 space-y-2">
+      {draft !== null && (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={6}
+          className="w-full p-2 rounded border border-border bg-card text-foreground font-mono text-xs focus:outline-none focus:border-primary/40"
+        />
+      )}
+      <div className="flex gap-2">
+        <button onClick={() => submit("approved")} className={cn(button, "border-neon-green/30 text-neon-green hover:bg-neon-green/10")}>
+          {draft === null ? "Approve" : "Save & approve"}
+        </button>
+        <button onClick={() => submit("rejected")} className={cn(button, "border-neon-red/30 text-neon-red hover:bg-neon-red/10")}>
+          Reject
+        </button>
+        {draft === null ? (
+          <button
+            onClick={() => setDraft(JSON.stringify(call.arguments, null, 2))}
+            className={cn(button, "border-border text-muted-foreground hover:bg-secondary")}
+          >
+            Edit
+          </button>
+        ) : (
+          <button
+            onClick={() => { setDraft(null); setErrors([]); }}
+            className={cn(button, "border-border text-muted-foreground hover:bg-secondary")}
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      {errors.map((error) => (
+        <p key={error} className="text-neon-red">✗ {error}</p>
+      ))}
+    </div>
+  );
+}
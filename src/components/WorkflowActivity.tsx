@@ -0,0 +1,78 @@
+import type { Workflow } from "@/core/types";
+import type { WorkflowRun } from "@/core/workflow-engine";
+import { describeTrigger } from "@/core/workflow-graph";
+import { cn } from "@/lib/utils";
+
+interface WorkflowActivityProps {
+  workflows: Workflow[]; // current versions
+  runs: WorkflowRun[]; // newest first
+  onCheckOverdue: () => void;
+  onRollback: (workflowId: string, version: number) => void;
+}
+
+const STATUS_CLASS: Record<WorkflowRun["status"], string> = {
+  completed: "bg-neon-green/10 text-neon-green",
+  halted: "bg-neon-amber/10 text-neon-amber",
+  failed: "bg-neon-red/10 text-neon-red",
+};
+
+export function WorkflowActivity({ workflows, runs, onCheckOverdue, onRollback }: WorkflowActivityProps) {
+  const workflowCount = workflows.length;
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-mono uppercase tracking-widest text-muted-foreground">Workflows · {workflowCount}</h3>
+        <button
+          onClick={onCheckOverdue}
+          disabled={workflowCount === 0}
+          className="text-xs font-mono px-2 py-0.5 rounded border border-border text-muted-foreground hover:text-primary hover:border-primary/30 disabled:opacity-40 transition-all"
+        >
+          Check overdue
+        </button>
+      </div>
+      {workflows.map((workflow) => (
+        <div key={workflow.id} className="flex items-center justify-between gap-2 text-xs font-mono">
+          <span className="truncate text-foreground">
+            {workflow.name}
+            <span className="text-muted-foreground/70">
+              {" "}· v{workflow.version}
+              {workflow.restoredFrom && ` (from v${workflow.restoredFrom})`} · {describeTrigger(workflow.trigger)}
+            </span>
+          </span>
+          {workflow.version > 1 && (
+            <button
+              onClick={() => onRollback(workflow.id, workflow.version - 1)}
+              className="shrink-0 px-2 py-0.5 rounded border border-border text-muted-foreground hover:text-neon-amber hover:border-neon-amber/30 transition-all"
+            >
+              ↶ v{workflow.version - 1}
+            </button>
+          )}
+        </div>
+      ))}
+      {runs.length === 0 && <p className="text-xs font-mono text-muted-foreground/60">No workflow runs yet.</p>}
+      {runs.map((run) => (
+        <div key={run.id} className="p-3 rounded-lg border border-border bg-card">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-mono text-foreground truncate">{run.workflowName}</span>
+            <span className={cn("text-xs font-mono px-1.5 py-0.5 rounded", STATUS_CLASS[run.status])}>{run.status}</span>
+          </div>
+          <p className="text-xs font-mono text-muted-foreground/70">
+            {run.event}
+            {run.taskId && ` · ${run.taskId}`}
+          </p>
+          {run.steps.map((step) => (
+            <p
+              key={step.index}
+              className={cn(
+                "text-xs font-mono mt-1",
+                step.status === "ok" ? "text-muted-foreground" : step.status === "halted" ? "text-neon-amber" : "text-neon-red"
+              )}
+            >
+              {step.index + 1}. {step.type}: {step.message}
+            </p>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import type { WorkflowInput, WorkflowStep } from "@/core/types";
+import { buildWorkflowGraph, errorsByStep } from "@/core/workflow-graph";
+import { cn } from "@/lib/utils";
+
+interface WorkflowGraphProps {
+  workflow: WorkflowInput;
+  edited?: boolean;
+  /** When set, steps can be edited inline. Returns validation errors, if any. */
+  onSave?: (workflow: WorkflowInput) => string[];
+}
+
+interface StepDraft {
+  type: WorkflowStep["type"];
+  condition: string;
+  update: string; // JSON text
+}
+
+const toDraft = (step: WorkflowStep): StepDraft => ({
+  type: step.type,
+  condition: step.condition ?? "",
+  update: step.update ? JSON.stringify(step.update) : "",
+});
+
+const NODE_CLASS: Record<WorkflowStep["type"], string> = {
+  condition: "border-neon-amber/30 bg-neon-amber/5",
+  update: "border-neon-cyan/30 bg-neon-cyan/5",
+  notify: "border-border bg-card",
+};
+
+export function WorkflowGraph({ workflow, edited, onSave }: WorkflowGraphProps) {
+  const [draft, setDraft] = useState<StepDraft[] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const graph = buildWorkflowGraph(workflow);
+  const branchInto = (id: string) => graph.edges.find((e) => e.to === id)?.branch;
+  const { workflow: workflowErrors, steps: stepErrors } = errorsByStep(errors);
+
+  const save = () => {
+    const steps: WorkflowStep[] = [];
+    const problems: string[] = [];
+    draft!.forEach((d, i) => {
+      const step: WorkflowStep = { type: d.type };
+      if (d.type === "condition") step.condition = d.condition;
+      if (d.update.trim()) {
+        try {
+          step.update = JSON.parse(d.update);
+        } catch {
+          problems.push(`$.workflow.steps[${i}].update: not valid JSON`);
+        }
+      }
+      steps.push(step);
+    });
+    const result = problems.length > 0 ? problems : onSave!({ ...workflow, steps });
+    setErrors(result);
+    if (result.length === 0) setDraft(null);
+  };
+
+  const change = (index: number, patch: Partial<StepDraft>) =>
+    setDraft(draft!.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+
+  const button = "text-xs font-mono px-2 py-0.5 rounded border transition-all";
+  const field = "w-full p-1.5 rounded border border-border bg-card text-foreground font-mono text-xs focus:outline-none focus:border-primary/40";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-mono uppercase tracking-widest text-muted-foreground">
+          Workflow · {workflow.name}
+          {edited && <span className="normal-case tracking-normal text-neon-amber"> · edited</span>}
+        </h4>
+        {onSave && draft === null && (
+          <button
+            onClick={() => setDraft(workflow.steps.map(toDraft))}
+            className={cn(button, "border-border text-muted-foreground hover:bg-secondary")}
+          >
+            Edit steps
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 rounded-lg border border-border bg-card/50 font-mono text-xs">
+        <div className="px-3 py-2 rounded border border-primary/30 bg-primary/5 text-primary">⚡ {graph.nodes[0].label}</div>
+
+        {draft === null
+          ? graph.nodes.map((node) =>
+              node.kind !== "step" ? null : (
+                <div key={node.id}>
+                  <Connector branch={branchInto(node.id)} />
+                  <div className={cn("px-3 py-2 rounded border flex items-center justify-between gap-2", NODE_CLASS[node.step.type])}>
+                    <span className="break-all">
+                      <span className="text-muted-foreground">{node.index + 1}. </span>
+                      {node.label}
+                    </span>
+                    {node.step.type === "condition" && <span className="shrink-0 text-neon-red/80">✗ fails → halted</span>}
+                  </div>
+                </div>
+              )
+            )
+          : draft.map((d, i) => (
+              <div key={i}>
+                <Connector branch={i > 0 && draft[i - 1].type === "condition" ? "holds" : undefined} />
+                <div className={cn("p-2 rounded border space-y-1.5", NODE_CLASS[d.type])}>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">{i + 1}.</span>
+                    <select
+                      value={d.type}
+                      onChange={(e) => change(i, { type: e.target.value as WorkflowStep["type"] })}
+                      className="p-1 rounded border border-border bg-card text-foreground font-mono text-xs"
+                    >
+                      <option value="condition">condition</option>
+                      <option value="update">update</option>
+                      <option value="notify">notify</option>
+                    </select>
+                    <button
+                      onClick={() => setDraft(draft.filter((_, j) => j !== i))}
+                      className={cn(button, "ml-auto border-neon-red/30 text-neon-red hover:bg-neon-red/10")}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  {d.type === "condition" ? (
+                    <input
+                      value={d.condition}
+                      onChange={(e) => change(i, { condition: e.target.value })}
+                      placeholder='task.priority in ["high", "critical"]'
+                      className={field}
+                    />
+                  ) : (
+                    <input
+                      value={d.update}
+                      onChange={(e) => change(i, { update: e.target.value })}
+                      placeholder={d.type === "update" ? '{"status": "urgent"}' : '{"message": "Task escalated"}'}
+                      className={field}
+                    />
+                  )}
+                  {stepErrors.get(i)?.map((error) => (
+                    <p key={error} className="text-neon-red break-all">✗ {error}</p>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+        <Connector branch={draft === null ? branchInto("done") : undefined} />
+        <div className="px-3 py-2 rounded border border-neon-green/30 bg-neon-green/5 text-neon-green">✓ Done</div>
+      </div>
+
+      {draft !== null && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => setDraft([...draft, { type: "notify", condition: "", update: "" }])}
+            className={cn(button, "border-border text-muted-foreground hover:bg-secondary")}
+          >
+            + Step
+          </button>
+          <button onClick={save} className={cn(button, "border-neon-green/30 text-neon-green hover:bg-neon-green/10")}>
+            Save & approve
+          </button>
+          <button
+            onClick={() => { setDraft(null); setErrors([]); }}
+            className={cn(button, "border-border text-muted-foreground hover:bg-secondary")}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+      {workflowErrors.map((error) => (
+        <p key={error} className="text-xs font-mono text-neon-red">✗ {error}</p>
+      ))}
+    </div>
+  );
+}
+
+function Connector({ branch }: { branch?: "holds" | "fails" }) {
+  return (
+    <div className="ml-4 pl-3 border-l border-border h-5 flex items-center text-muted-foreground/70">
+      {branch === "holds" && "✓ holds"}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { Workflow } from "@/core/types";
+import { describeWorkflowDiff, type WorkflowDiff } from "@/core/workflow-versions";
+import { cn } from "@/lib/utils";
+
+interface WorkflowVersionDiffProps {
+  current: Workflow;
+  diff: WorkflowDiff;
+}
+
+const LINE_CLASS: Record<string, string> = {
+  "+": "text-neon-green",
+  "-": "text-neon-red",
+  "~": "text-neon-cyan",
+};
+
+export function WorkflowVersionDiff({ current, diff }: WorkflowVersionDiffProps) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-mono uppercase tracking-widest text-muted-foreground">
+        Changes vs version {current.version} · saves version {current.version + 1}
+      </h4>
+      <div className="p-4 rounded-lg border border-neon-cyan/20 bg-neon-cyan/5 font-mono text-xs space-y-1">
+        {diff.unchanged && <p className="text-muted-foreground">Same definition as the current version.</p>}
+        {describeWorkflowDiff(diff).map((line, i) => (
+          <p key={i} className={cn("break-all", LINE_CLASS[line[0]])}>
+            {line}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { parseDocument } from "yaml";
+import type { AgentConfig, JSONSchema } from "./types";
+import { OUTPUT_SCHEMAS, TOOL_REGISTRY } from "./tools";
+import { validateAgainstSchema } from "./schema-validator";
+import { missingPermissions, parsePermission } from "./permissions";
+import { parsePolicyFile } from "./policy-engine";
+
+// ==========================================
+// Agent Definitions — agents are declared in
+// YAML or JSON files under ./agents, checked
+// against a schema and against the tool,
+// output schema and permission registries,
+// and loaded when the runtime starts. Every
+// error names the file and the field.
+// ==========================================
+
+const MODEL_IDS = ["gpt-5.2", "claude-opus-4.6", "gemini-3", "scripted"];
+
+export const AGENT_FILE_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", pattern: "^[a-z][a-z0-9-]*$" },
+    model: { enum: MODEL_IDS },
+    instructions: { type: "string", minLength: 1 },
+    allowedTools: { type: "array", items: { type: "string" } },
+    outputSchema: { type: "string" },
+    permissions: { type: "array", items: { type: "string" } },
+    maxTurns: { type: "integer", minimum: 1 },
+    providerPolicy: {
+      type: "object",
+      properties: {
+        timeoutMs: { type: "integer", minimum: 1 },
+        maxRetries: { type: "integer", minimum: 0 },
+        backoffMs: { type: "integer", minimum: 0 },
+        fallbackModels: { type: "array", items: { enum: MODEL_IDS } },
+      },
+      additionalProperties: false,
+    },
+    schemaRepairAttempts: { type: "integer", minimum: 0 },
+    policyFile: { type: "string" }, // e.g. policies/task-agent.json, relative to src/core
+    order: { type: "integer", minimum: 0 }, // position in agent lists, lowest first
+  },
+  required: ["name", "model", "instructions", "allowedTools", "outputSchema", "permissions"],
+  additionalProperties: false,
+};
+
+type AgentFile = Omit<AgentConfig, "policies"> & { policyFile?: string };
+
+/** Parse YAML or JSON (by extension) into plain data; syntax errors carry line and column. */
+export function parseAgentSource(text: string, source: string): unknown {
+  if (source.endsWith(".json")) {
+    try {
+      return JSON.parse(text);
+    } catch (err) {
+      throw new Error(`Invalid agent file ${source}: ${(err as Error).message}`);
+    }
+  }
+  const doc = parseDocument(text);
+  if (doc.errors.length > 0) {
+    const problems = doc.errors.map((e) => {
+      const at = e.linePos?.[0];
+      const message = e.message.split(" at line ")[0];
+      return at ? `line ${at.line}, column ${at.col}: ${message}` : message;
+    });
+    throw new Error(`Invalid agent file ${source}: ${problems.join("; ")}`);
+  }
+  return doc.toJS();
+}
+
+/**
+ * Validate parsed agent data; throws with every problem and the file name.
+ * `policyFiles` maps paths like `policies/task-agent.json` to their parsed contents.
+ */
+export function parseAgentFile(data: unknown, source: string, policyFiles: Record<string, unknown> = {}): AgentConfig {
+  const validation = validateAgainstSchema(data, AGENT_FILE_SCHEMA);
+  if (!validation.valid) throw new Error(`Invalid agent file ${source}: ${validation.errors.join("; ")}`);
+
+  const { policyFile, ...config } = data as AgentFile;
+  const problems: string[] = [];
+
+  const permissions = config.permissions.filter((permission, i) => {
+    try {
+      parsePermission(permission);
+      return true;
+    } catch (err) {
+      problems.push(`$.permissions[${i}]: ${(err as Error).message}`);
+      return false;
+    }
+  });
+
+  config.allowedTools.forEach((name, i) => {
+    const tool = TOOL_REGISTRY.find((t) => t.name === name);
+    if (!tool) {
+      problems.push(`$.allowedTools[${i}]: unknown tool "${name}"`);
+      return;
+    }
+    const missing = missingPermissions(tool.requiredPermissions, permissions);
+    if (missing.length > 0) problems.push(`$.allowedTools[${i}]: ${name} requires ${missing.join(", ")}, not granted in $.permissions`);
+  });
+
+  if (!OUTPUT_SCHEMAS[config.outputSchema]) {
+    problems.push(
+      `$.outputSchema: unknown output schema "${config.outputSchema}" (available: ${Object.keys(OUTPUT_SCHEMAS).join(", ")})`
+    );
+  }
+
+  let policies: AgentConfig["policies"];
+  if (policyFile !== undefined) {
+    if (!(policyFile in policyFiles)) {
+      problems.push(`$.policyFile: no policy file "${policyFile}"`);
+    } else {
+      try {
+        policies = parsePolicyFile(policyFiles[policyFile], policyFile);
+      } catch (err) {
+        problems.push(`$.policyFile: ${(err as Error).message}`);
+      }
+    }
+  }
+
+  if (problems.length > 0) throw new Error(`Invalid agent file ${source}: ${problems.join("; ")}`);
+  return policies ? { ...config, policies } : config;
+}
+
+/**
+ * Load every agent file, reporting the problems of all of them at once. Names
+ * must be unique. Agents are sorted by `order`; those without one come last.
+ */
+export function loadAgentDefinitions(files: Record<string, string>, policyFiles: Record<string, unknown> = {}): AgentConfig[] {
+  const agents: AgentConfig[] = [];
+  const errors: string[] = [];
+  const sources = new Map<string, string>(); // agent name → file
+
+  for (const [source, text] of Object.entries(files)) {
+    try {
+      const agent = parseAgentFile(parseAgentSource(text, source), source, policyFiles);
+      const other = sources.get(agent.name);
+      if (other) throw new Error(`Invalid agent file ${source}: $.name: agent "${agent.name}" is already defined in ${other}`);
+      sources.set(agent.name, source);
+      agents.push(agent);
+    } catch (err) {
+      errors.push((err as Error).message);
+    }
+  }
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+  return agents.sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER));
+}
+
+// ---------- Bundled Agents ----------
+// Keys are made relative to src/core, e.g. agents/task-agent.yaml
+const relative = <T>(files: Record<string, T>) =>
+  Object.fromEntries(Object.entries(files).map(([path, value]) => [path.replace(/^\.\//, ""), value]));
+
+export const AGENT_FILES = relative(
+  import.meta.glob<string>("./agents/*.{yaml,yml,json}", { query: "?raw", import: "default", eager: true })
+);
+export const POLICY_FILES = relative(import.meta.glob<unknown>("./policies/*.json", { import: "default", eager: true }));
@@ -6,10 +6,43 @@
   StructuredResult,
   ToolCall,
   ModelId,
+  DataStore,
+  ConversationMessage,
+  ToolExecutionResult,
+  ToolCallReview,
+  ToolRejection,
+  ToolRejectionReason,
+  GenerateOptions,
+  LLMProvider,
+  StreamEvent,
 } from "./types";
 import { getProvider } from "./providers";
-import { getPermittedTools, validateToolAccess, OUTPUT_SCHEMAS } from "./tools";
+import { callWithPolicy, modelChain, type ProviderAttempt } from "./provider-policy";
+import {
+  getPermittedTools,
+  isReadOnlyTool,
+  validateToolAccess,
+  validateToolArguments,
+  OUTPUT_SCHEMAS,
+} from "./tools";
 import { validateAgainstSchema } from "./schema-validator";
+import { compensateToolCall, executeToolCall } from "./executors";
+import { dryRunToolCalls, type DryRunResult } from "./dry-run";
+import {
+  getDefaultIdempotencyStore,
+  getDefaultPlanSigner,
+  type IdempotencyStore,
+  type PlanRejectionReason,
+  type PlanSeal,
+  type PlanSigner,
+} from "./plan-seal";
+import { getDefaultStore } from "./store";
+import { StreamAccumulator } from "./streaming";
+import { getDefaultAuditLog } from "./audit-log";
+import { resolveToolTargets } from "./permissions";
+import { buildPolicyContext, describeDecision, evaluatePolicies } from "./policy-engine";
+import { needsIndividualApproval } from "./tool-review";
+import { AGENT_FILES, POLICY_FILES, loadAgentDefinitions } from "./agent-definitions";
 
 // ==========================================
 // Agent Runtime Engine
@@ -18,8 +51,7 @@ import { validateAgainstSchema } from "./schema-validator";
 //   2. Execution — requires user confirmation
 // ==========================================
 
-let logIdCounter = 0;
-
+// Every entry is appended to the hash-chained audit log
 function createLog(
   phase: Phase,
   model: ModelId,
@@ -28,8 +60,7 @@ function createLog(
   message: string,
   data?: unknown
 ): LogEntry {
-  return {
-    id: `log-${++logIdCounter}`,
+  return getDefaultAuditLog().append({
     timestamp: new Date(),
     phase,
     model,
@@ -37,63 +68,82 @@ function createLog(
     type,
     message,
     data,
-  };
+  });
 }
 
-// Pre-configured agents
-export const AGENT_CONFIGS: AgentConfig[] = [
-  {
-    name: "workflow-agent",
-    model: "claude-opus-4.6",
-    instructions: "Create and manage automation workflows safely for Onebeam apps. Always produce structured workflow definitions.",
-    allowedTools: ["readTask", "createWorkflow", "listTasks"],
-    outputSchema: "WorkflowDefinition",
-    permissions: ["read:tasks", "write:workflows", "read:workflows"],
-  },
-  {
-    name: "task-agent",
-    model: "gpt-5.2",
-    instructions: "Manage tasks — read, list, and update tasks. Never create workflows or access unauthorized resources.",
-    allowedTools: ["readTask", "updateTask", "listTasks"],
-    outputSchema: "TaskUpdate",
-    permissions: ["read:tasks", "write:tasks"],
-  },
-  {
-    name: "readonly-agent",
-    model: "gemini-3",
-    instructions: "Read-only agent that can only list and read tasks. Cannot modify any data.",
-    allowedTools: ["readTask", "listTasks"],
-    outputSchema: "TaskList",
-    permissions: ["read:tasks"],
-  },
-];
+// Agents declared in ./agents/*.{yaml,json}; a bad file fails startup with its name and field
+export const AGENT_CONFIGS: AgentConfig[] = loadAgentDefinitions(AGENT_FILES, POLICY_FILES);
 
 export interface AgentRunResult {
   phase: Phase;
+  model: ModelId; // model that produced the plan, after any fallback
   result: StructuredResult;
   logs: LogEntry[];
   validationPassed: boolean;
   blockedCalls: ToolCall[];
   approvedCalls: ToolCall[];
+  readCalls: ToolCall[]; // read-only calls answered during discussion
+  turns: number; // model round-trips taken in discussion
+  revertedCalls?: ToolCall[]; // execution only: calls undone after a later call failed
+  plan?: PlanSeal; // set by discussion; execution refuses plans that do not match it
 }
 
+export interface DiscussionOptions {
+  store?: DataStore; // read-only calls are answered from this store
+  // Streams each model turn when set; `attempt` changes when a call is retried or falls back
+  onStreamEvent?: (event: StreamEvent, turn: number, attempt: number) => void;
+  planSigner?: PlanSigner; // defaults to the shared signer
+}
+
+/** A run that failed outright; `logs` holds the audit trail up to the failure. */
+export class AgentRunError extends Error {
+  constructor(
+    message: string,
+    readonly logs: LogEntry[]
+  ) {
+    super(message);
+    this.name = "AgentRunError";
+  }
+}
+
+/** Execution refused to run a plan: it was unsealed, altered, expired or already executed. */
+export class PlanRejectedError extends AgentRunError {
+  constructor(
+    readonly reason: PlanRejectionReason,
+    message: string,
+    logs: LogEntry[]
+  ) {
+    super(message, logs);
+    this.name = "PlanRejectedError";
+  }
+}
+
+const DEFAULT_MAX_TURNS = 5;
+
 /**
  * Run the Discussion phase — AI reasons and proposes a plan.
- * NO side effects are allowed. All tool calls are logged but not executed.
+ * NO side effects are allowed. Read-only tool calls are answered and fed
+ * back to the model; every other call is logged as a proposal, not executed.
  */
 export async function runDiscussion(
-  request: AgentRunRequest
+  request: AgentRunRequest,
+  options: DiscussionOptions = {}
 ): Promise<AgentRunResult> {
   const config = AGENT_CONFIGS.find((c) => c.name === request.agent);
   if (!config) throw new Error(`Unknown agent: ${request.agent}`);
 
-  const modelId = request.model || config.model;
-  const provider = getProvider(modelId);
+  const models = modelChain(request.model || config.model, config.providerPolicy);
+  let modelId = models[0];
+  const store = options.store ?? getDefaultStore();
+  const maxTurns = config.maxTurns ?? DEFAULT_MAX_TURNS;
   const logs: LogEntry[] = [];
 
   logs.push(
-    createLog("discussion", modelId, config.name, "plan", `Starting discussion phase with ${provider.displayName}`)
+    createLog("discussion", modelId, config.name, "plan", `Starting discussion phase with ${getProvider(modelId).displayName}`)
   );
+  if (models.length > 1) {
+    logs.push(createLog("discussion", modelId, config.name, "plan", `Provider fallback chain: ${models.join(" → ")}`));
+  }
 
   // Get only permitted tools
   const permittedTools = getPermittedTools(config.allowedTools, config.permissions);
@@ -102,31 +152,95 @@ export async function runDiscussion(
     createLog("discussion", modelId, config.name, "plan", `Permitted tools: [${permittedTools.map(t => t.name).join(", ")}]`)
   );
 
-  // Call the LLM
-  const result = await provider.generateStructuredOutput({
-    systemPrompt: config.instructions,
-    userPrompt: request.input,
-    tools: permittedTools,
-    outputSchema: OUTPUT_SCHEMAS[config.outputSchema] || { type: "object" },
-  });
-
-  // Enforce tool boundaries
+  const messages: ConversationMessage[] = [{ role: "user", content: request.input }];
   const blockedCalls: ToolCall[] = [];
   const approvedCalls: ToolCall[] = [];
+  const readCalls: ToolCall[] = [];
+  const allCalls: ToolCall[] = [];
+  let result: StructuredResult;
+  let turns = 0;
+
+  // Agentic loop — keep going while the model asks for read-only data.
+  // A turn without read-only calls carries the final structured output.
+  for (;;) {
+    turns++;
+    const generateOptions: GenerateOptions = {
+      systemPrompt: config.instructions,
+      userPrompt: request.input,
+      tools: permittedTools,
+      outputSchema: OUTPUT_SCHEMAS[config.outputSchema] || { type: "object" },
+      messages,
+    };
+    const turn = turns;
+    try {
+      // Once a model fails over, later turns stay on the fallback
+      const answered = await callWithPolicy(
+        models.slice(models.indexOf(modelId)),
+        config.providerPolicy ?? {},
+        (provider, signal, attempt) => options.onStreamEvent
+          ? streamTurn(provider, { ...generateOptions, signal }, (event) => options.onStreamEvent!(event, turn, attempt))
+          : provider.generateStructuredOutput({ ...generateOptions, signal }),
+        (attempt) => logs.push(attemptLog(attempt, turn, config.name))
+      );
+      result = answered.value;
+      modelId = answered.modelId;
+    } catch (error) {
+      const message = `Discussion failed on turn ${turn}: no provider in [${models.join(", ")}] returned a response`;
+      logs.push(createLog("discussion", modelId, config.name, "error", message, { error: String(error) }));
+      throw new AgentRunError(message, logs);
+    }
+    allCalls.push(...result.toolCalls);
 
-  for (const call of result.toolCalls) {
-    const blockReason = validateToolAccess(call.toolName, config.allowedTools, config.permissions);
-    if (blockReason) {
-      call.status = "rejected";
-      blockedCalls.push(call);
-      logs.push(createLog("discussion", modelId, config.name, "blocked", blockReason, call));
-    } else {
-      call.status = "approved";
-      approvedCalls.push(call);
+    const reads = result.toolCalls.filter((c) => isReadOnlyTool(c.toolName));
+    const proposals = result.toolCalls.filter((c) => !reads.includes(c));
+    const lastTurn = reads.length === 0 || turns >= maxTurns;
+
+    if (reads.length > 0 && lastTurn) {
       logs.push(
-        createLog("discussion", modelId, config.name, "tool_call", `Tool call approved: ${call.toolName}`, call)
+        createLog("discussion", modelId, config.name, "error",
+          `Reached max turns (${maxTurns}); ${reads.length} read-only call(s) left unanswered and kept as proposals.`)
       );
     }
+
+    // Enforce tool boundaries on proposals
+    for (const call of lastTurn ? result.toolCalls : proposals) {
+      if (await gateToolCall(call, config, modelId, store, logs)) {
+        call.status = "approved";
+        approvedCalls.push(call);
+        const approval = call.policy?.effect === "require_approval"
+          ? ` — requires explicit approval (${describeDecision(call.policy)})`
+          : "";
+        logs.push(
+          createLog("discussion", modelId, config.name, "tool_call", `Tool call approved: ${call.toolName}${approval}`, call)
+        );
+      } else {
+        blockedCalls.push(call);
+      }
+    }
+    if (lastTurn) break;
+
+    // Answer every call of this turn so the model can continue. Reasoning goes
+    // back only in the vendor's native form, never as assistant text.
+    messages.push(assistantTurn(result, result.rawOutput || undefined));
+    for (const call of result.toolCalls) {
+      let outcome: ToolExecutionResult;
+      if (!reads.includes(call)) {
+        outcome = proposalOutcome(call);
+      } else if (!(await gateToolCall(call, config, modelId, store, logs))) {
+        blockedCalls.push(call);
+        outcome = { success: false, message: call.rejection!.message };
+      } else {
+        outcome = await executeToolCall(call, store);
+        call.status = outcome.success ? "executed" : "failed";
+        call.result = outcome;
+        readCalls.push(call);
+        logs.push(
+          createLog("discussion", modelId, config.name, "tool_call",
+            `Read-only call answered (turn ${turns}): ${call.toolName} — ${outcome.message}`, call)
+        );
+      }
+      messages.push({ role: "tool", toolCallId: call.id ?? call.toolName, toolName: call.toolName, result: outcome });
+    }
   }
 
   // Validate structured output
@@ -147,41 +261,331 @@ export async function runDiscussion(
         validation
       )
     );
+
+    if (!validationPassed && (config.schemaRepairAttempts ?? 0) > 0) {
+      const repaired = await repairOutput(config, modelId, result, validation.errors, {
+        systemPrompt: config.instructions,
+        userPrompt: request.input,
+        tools: permittedTools,
+        outputSchema: schema,
+        messages,
+      }, logs);
+      validationPassed = repaired !== null;
+      if (repaired) result = { ...result, data: repaired.data, rawOutput: repaired.rawOutput };
+    }
   }
 
   logs.push(
     createLog("discussion", modelId, config.name, "plan",
-      `Discussion complete. ${approvedCalls.length} approved, ${blockedCalls.length} blocked.`)
+      `Discussion complete after ${turns} turn(s). ${readCalls.length} read, ${approvedCalls.length} approved, ${blockedCalls.length} blocked.`)
+  );
+
+  const finalResult = { ...result, toolCalls: allCalls };
+  const plan = (options.planSigner ?? getDefaultPlanSigner()).seal(
+    { model: modelId, result: finalResult, approvedCalls },
+    config.name
+  );
+  logs.push(
+    createLog("discussion", modelId, config.name, "plan",
+      `Plan sealed with idempotency key ${plan.idempotencyKey}; expires at ${plan.expiresAt}`)
   );
 
   return {
     phase: "discussion",
-    result,
+    model: modelId,
+    result: finalResult,
     logs,
     validationPassed,
     blockedCalls,
     approvedCalls,
+    readCalls,
+    turns,
+    plan,
   };
 }
 
+/** Stream one model turn, forwarding every event, and return its final result. */
+async function streamTurn(
+  provider: LLMProvider,
+  generateOptions: GenerateOptions,
+  onEvent: (event: StreamEvent) => void
+): Promise<StructuredResult> {
+  const accumulator = new StreamAccumulator();
+  for await (const event of provider.streamStructuredOutput(generateOptions)) {
+    accumulator.apply(event);
+    onEvent(event);
+  }
+  return accumulator.result();
+}
+
+/** Log one provider attempt: successes as plan entries, failures as errors. */
+function attemptLog(attempt: ProviderAttempt, turn: number, agent: string): LogEntry {
+  const name = getProvider(attempt.modelId).displayName;
+  const prefix = `Turn ${turn}: ${name} attempt ${attempt.attempt}`;
+  switch (attempt.next) {
+    case "done":
+      return createLog("discussion", attempt.modelId, agent, "plan", `${prefix} responded in ${attempt.durationMs}ms`, attempt);
+    case "retry":
+      return createLog("discussion", attempt.modelId, agent, "error",
+        `${prefix} failed — ${attempt.error}. Retrying in ${attempt.retryInMs}ms.`, attempt);
+    case "fallback":
+      return createLog("discussion", attempt.modelId, agent, "error",
+        `${prefix} failed — ${attempt.error}. Falling back to ${getProvider(attempt.fallbackTo!).displayName}.`, attempt);
+    case "give_up":
+      return createLog("discussion", attempt.modelId, agent, "error",
+        `${prefix} failed — ${attempt.error}. No fallback models left.`, attempt);
+  }
+}
+
+/** The history entry for a model turn: its text, its calls and any native reasoning blocks. */
+function assistantTurn(result: StructuredResult, content: string | undefined): ConversationMessage {
+  return {
+    role: "assistant",
+    content,
+    toolCalls: result.toolCalls,
+    ...(result.nativeReasoning ? { nativeReasoning: result.nativeReasoning } : {}),
+  };
+}
+
+/** What the model is told about a call that is not answered during discussion. */
+function proposalOutcome(call: ToolCall): ToolExecutionResult {
+  return call.status === "approved"
+    ? { success: true, message: "Proposed — will run in the execution phase after user confirmation." }
+    : { success: false, message: call.rejection?.message ?? "Rejected" };
+}
+
+/**
+ * Schema-repair loop: send the validation errors and the rejected output back
+ * to the same model and ask for a corrected object, up to the agent's
+ * `schemaRepairAttempts`. Only the structured output is replaced — tool calls
+ * in a repair response are ignored. Returns the first valid output, or null.
+ */
+async function repairOutput(
+  config: AgentConfig,
+  modelId: ModelId,
+  original: StructuredResult,
+  errors: string[],
+  generateOptions: GenerateOptions,
+  logs: LogEntry[]
+): Promise<StructuredResult | null> {
+  const maxAttempts = config.schemaRepairAttempts ?? 0;
+  const messages = [...generateOptions.messages!];
+  // The final turn's calls still need answers before the conversation can continue
+  messages.push(assistantTurn(original, original.rawOutput ?? JSON.stringify(original.data)));
+  for (const call of original.toolCalls) {
+    messages.push({ role: "tool", toolCallId: call.id ?? call.toolName, toolName: call.toolName, result: proposalOutcome(call) });
+  }
+
+  let output = original;
+  let remainingErrors = errors;
+  let attempt = 0;
+  while (attempt < maxAttempts) {
+    attempt++;
+    messages.push({ role: "user", content: repairPrompt(output, remainingErrors) });
+    try {
+      const { value } = await callWithPolicy(
+        [modelId],
+        { ...config.providerPolicy, fallbackModels: [] },
+        (provider, signal) => provider.generateStructuredOutput({ ...generateOptions, messages: [...messages], signal })
+      );
+      output = value;
+    } catch (error) {
+      logs.push(createLog("discussion", modelId, config.name, "error",
+        `Schema repair attempt ${attempt}/${maxAttempts} failed: ${error instanceof Error ? error.message : String(error)}`));
+      break;
+    }
+    messages.push(assistantTurn({ ...output, toolCalls: [] }, output.rawOutput ?? JSON.stringify(output.data)));
+
+    const validation = validateAgainstSchema(output.data, generateOptions.outputSchema);
+    logs.push(
+      createLog("discussion", modelId, config.name, "validation",
+        validation.valid
+          ? `✓ Schema repair attempt ${attempt}/${maxAttempts} produced valid output`
+          : `✗ Schema repair attempt ${attempt}/${maxAttempts} still invalid: ${validation.errors.join("; ")}`,
+        { output: output.data, validation })
+    );
+    if (validation.valid) {
+      logs.push(createLog("discussion", modelId, config.name, "plan", `Schema repair succeeded after ${attempt} attempt(s)`));
+      return output;
+    }
+    remainingErrors = validation.errors;
+  }
+
+  logs.push(createLog("discussion", modelId, config.name, "error",
+    `Schema repair gave up after ${attempt} attempt(s); output still fails validation`));
+  return null;
+}
+
+function repairPrompt(output: StructuredResult, errors: string[]): string {
+  return [
+    "Your structured output does not match the required JSON schema.",
+    "Validation errors:",
+    ...errors.map((e) => `- ${e}`),
+    "Previous output:",
+    output.rawOutput ?? JSON.stringify(output.data),
+    "Reply with a corrected object that satisfies the schema. Do not call any tools.",
+  ].join("\n");
+}
+
+/**
+ * Apply the discussion-phase gates to one call: tool access, arguments, then
+ * the agent's policies. Marks the call rejected and logs why when a gate fails.
+ */
+async function gateToolCall(
+  call: ToolCall,
+  config: AgentConfig,
+  modelId: ModelId,
+  store: DataStore,
+  logs: LogEntry[]
+): Promise<boolean> {
+  const targets = await resolveToolTargets(call, store);
+  const blockReason = validateToolAccess(call.toolName, config.allowedTools, config.permissions, targets);
+  if (blockReason) {
+    call.status = "rejected";
+    call.rejection = { reason: "access_denied", message: blockReason };
+    logs.push(createLog("discussion", modelId, config.name, "blocked", blockReason, call));
+    return false;
+  }
+
+  // Arguments must match the tool's parameters schema
+  const argValidation = validateToolArguments(call.toolName, call.arguments);
+  logs.push(
+    createLog(
+      "discussion", modelId, config.name, "validation",
+      argValidation.valid
+        ? `✓ Arguments for ${call.toolName} match parameters schema`
+        : `✗ Arguments for ${call.toolName} failed validation: ${argValidation.errors.join("; ")}`,
+      argValidation
+    )
+  );
+  if (!argValidation.valid) {
+    const message = `BLOCKED: Invalid arguments for tool "${call.toolName}". This call has been rejected.`;
+    call.status = "rejected";
+    call.rejection = { reason: "invalid_arguments", message };
+    logs.push(createLog("discussion", modelId, config.name, "blocked", message, call));
+    return false;
+  }
+
+  return checkPolicies(call, config, "discussion", modelId, store, logs);
+}
+
+/**
+ * Evaluate the agent's policies for one call; a deny rejects it with the
+ * policy's reason. A require_approval decision passes here and is enforced
+ * against the call's review at execution.
+ */
+async function checkPolicies(
+  call: ToolCall,
+  config: AgentConfig,
+  phase: Phase,
+  modelId: ModelId,
+  store: DataStore,
+  logs: LogEntry[]
+): Promise<boolean> {
+  if (!config.policies?.length) return true;
+  call.policy = evaluatePolicies(config.policies, call, await buildPolicyContext(call, config, store));
+  if (call.policy.effect !== "deny") return true;
+
+  const message = `BLOCKED by ${describeDecision(call.policy)}`;
+  call.status = "rejected";
+  call.rejection = { reason: "policy_denied", message };
+  logs.push(createLog(phase, modelId, config.name, "blocked", message, call));
+  return false;
+}
+
+export interface ExecutionOptions {
+  store?: DataStore; // defaults to the shared in-memory store
+  planSigner?: PlanSigner; // must be the signer that sealed the plan
+  idempotencyStore?: IdempotencyStore; // defaults to the shared in-memory store
+}
+
+/**
+ * The checks an approved call must pass right before it runs: edited
+ * arguments, scopes and policies against the store as it is now, and an
+ * individual review where a policy requires approval. Returns why the call
+ * is blocked, or null.
+ */
+async function executionGate(
+  call: ToolCall,
+  review: ToolCallReview,
+  config: AgentConfig,
+  store: DataStore
+): Promise<ToolRejection | null> {
+  if (review.originalArguments) {
+    const argValidation = validateToolArguments(call.toolName, call.arguments);
+    if (!argValidation.valid) {
+      return {
+        reason: "invalid_arguments",
+        message: `BLOCKED: Edited arguments for ${call.toolName} failed validation: ${argValidation.errors.join("; ")}`,
+      };
+    }
+  }
+
+  const scopeBlock = validateToolAccess(call.toolName, config.allowedTools, config.permissions,
+    await resolveToolTargets(call, store));
+  if (scopeBlock) return { reason: "access_denied", message: scopeBlock };
+
+  if (!config.policies?.length) return null;
+  call.policy = evaluatePolicies(config.policies, call, await buildPolicyContext(call, config, store));
+  if (call.policy.effect === "deny") return { reason: "policy_denied", message: `BLOCKED by ${describeDecision(call.policy)}` };
+  if (needsIndividualApproval(call) && review.bulk) {
+    return {
+      reason: "approval_required",
+      message: `BLOCKED: ${call.toolName} needs its own approval, not "Approve all" — ${describeDecision(call.policy)}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Dry run of the Execution phase: simulates the calls a reviewer approved
+ * against a copy of the store, through the same gates execution applies,
+ * and returns the resulting diff. Nothing is written and nothing is logged.
+ */
+export async function previewExecution(
+  discussionResult: AgentRunResult,
+  request: AgentRunRequest,
+  options: ExecutionOptions = {}
+): Promise<DryRunResult> {
+  const config = AGENT_CONFIGS.find((c) => c.name === request.agent);
+  if (!config) throw new Error(`Unknown agent: ${request.agent}`);
+
+  // Copies, so the gates' verdicts stay off the calls shown for review
+  const calls = discussionResult.approvedCalls.filter((c) => c.review?.decision === "approved").map((c) => ({ ...c }));
+  return dryRunToolCalls(calls, options.store ?? getDefaultStore(), (call, store) =>
+    executionGate(call, call.review!, config, store)
+  );
+}
+
 /**
  * Run the Execution phase — applies the plan after user confirmation.
- * Re-validates everything before executing.
+ * Only calls a reviewer approved run; everything is re-validated first.
+ * The run is atomic: if a call fails, the calls executed before it are
+ * compensated in reverse order and the rest are not attempted.
  */
 export async function runExecution(
   discussionResult: AgentRunResult,
-  request: AgentRunRequest
+  request: AgentRunRequest,
+  options: ExecutionOptions = {}
 ): Promise<AgentRunResult> {
   const config = AGENT_CONFIGS.find((c) => c.name === request.agent);
   if (!config) throw new Error(`Unknown agent: ${request.agent}`);
 
-  const modelId = request.model || config.model;
+  const modelId = discussionResult.model;
   const logs: LogEntry[] = [];
 
   logs.push(
     createLog("execution", modelId, config.name, "execution", "User confirmed — entering execution phase")
   );
 
+  // Refuse plans that do not match what the discussion phase produced
+  const refuse = (reason: PlanRejectionReason, message: string): never => {
+    logs.push(createLog("execution", modelId, config.name, "error", `Execution refused: ${message}`));
+    throw new PlanRejectedError(reason, `Execution refused: ${message}`, [...discussionResult.logs, ...logs]);
+  };
+  const verification = (options.planSigner ?? getDefaultPlanSigner()).verify(discussionResult, config.name);
+  if (!verification.valid) refuse(verification.reason!, verification.message!);
+
   // Re-validate output before executing
   const schema = OUTPUT_SCHEMAS[config.outputSchema];
   let validationPassed = true;
@@ -199,29 +603,135 @@ export async function runExecution(
 
   if (!validationPassed) {
     logs.push(createLog("execution", modelId, config.name, "error", "Execution aborted: output failed re-validation"));
-    return { ...discussionResult, phase: "execution", logs, validationPassed: false };
+    return { ...discussionResult, phase: "execution", logs: [...discussionResult.logs, ...logs], validationPassed: false };
   }
 
-  // Execute approved tool calls
-  for (const call of discussionResult.approvedCalls) {
-    call.status = "executed";
-    call.result = { success: true, message: `Executed ${call.toolName} successfully` };
-    logs.push(
-      createLog("execution", modelId, config.name, "execution", `Executed: ${call.toolName}`, call)
-    );
+  const idempotencyKey = discussionResult.plan!.idempotencyKey;
+  if (!(await (options.idempotencyStore ?? getDefaultIdempotencyStore()).claim(idempotencyKey))) {
+    refuse("already_executed", `plan ${idempotencyKey} was already executed`);
+  }
+  logs.push(
+    createLog("execution", modelId, config.name, "execution", `✓ Plan seal verified; idempotency key ${idempotencyKey} claimed`)
+  );
+
+  // Execute the calls the reviewer approved against the store
+  const store = options.store ?? getDefaultStore();
+  const blockedCalls = [...discussionResult.blockedCalls];
+  const counts = { executed: 0, failed: 0, blocked: 0, rejected: 0, skipped: 0 };
+  const executed: ToolCall[] = [];
+  let failedCall: ToolCall | undefined;
+  let notAttempted = 0;
+  const block = (call: ToolCall, reason: ToolRejectionReason, message: string) => {
+    call.status = "rejected";
+    call.rejection = { reason, message };
+    logs.push(createLog("execution", modelId, config.name, "blocked", message, call));
+  };
+
+  // Workflows hear about the run's writes only once it commits; a rollback that
+  // undid every write publishes nothing, compensations included. Other writers'
+  // events are not held.
+  const events = store.holdEvents();
+  const revertedCalls: ToolCall[] = [];
+  try {
+    for (const call of discussionResult.approvedCalls) {
+      if (failedCall) {
+        notAttempted++;
+        logs.push(
+          createLog("execution", modelId, config.name, "blocked", `Not attempted: ${call.toolName} — run is being rolled back`, call)
+        );
+        continue;
+      }
+      const review = call.review;
+      if (!review) {
+        counts.skipped++;
+        logs.push(createLog("execution", modelId, config.name, "blocked", `Skipped: ${call.toolName} — not approved by a reviewer`, call));
+        continue;
+      }
+      if (review.decision === "rejected") {
+        counts.rejected++;
+        block(call, "user_rejected", `Rejected by ${review.reviewer}: ${call.toolName}`);
+        continue;
+      }
+      logs.push(
+        createLog("execution", modelId, config.name, "tool_call",
+          `Approved by ${review.reviewer}: ${call.toolName}${review.originalArguments ? " (arguments edited)" : ""}`, call)
+      );
+
+      const rejection = await executionGate(call, review, config, store);
+      if (rejection) {
+        counts.blocked++;
+        blockedCalls.push(call);
+        block(call, rejection.reason, rejection.message);
+        continue;
+      }
+
+      const outcome = await executeToolCall(call, events.store);
+      call.result = outcome;
+      if (outcome.success) {
+        call.status = "executed";
+        counts.executed++;
+        executed.push(call);
+        logs.push(
+          createLog("execution", modelId, config.name, "execution", `Executed: ${call.toolName} — ${outcome.message}`, call)
+        );
+      } else {
+        call.status = "failed";
+        counts.failed++;
+        failedCall = call;
+        logs.push(
+          createLog("execution", modelId, config.name, "error", `Failed: ${call.toolName} — ${outcome.message}`, call)
+        );
+      }
+    }
+
+    // Undo what already ran, newest first
+    if (failedCall) {
+      logs.push(
+        createLog("execution", modelId, config.name, "error",
+          `Rolling back ${executed.length} executed call(s) after ${failedCall.toolName} failed`)
+      );
+      for (const call of [...executed].reverse()) {
+        const undo = await compensateToolCall(call, events.store);
+        if (undo.success) {
+          call.status = "reverted";
+          revertedCalls.push(call);
+          logs.push(
+            createLog("execution", modelId, config.name, "execution", `Reverted: ${call.toolName} — ${undo.message}`, call)
+          );
+        } else {
+          logs.push(
+            createLog("execution", modelId, config.name, "error",
+              `Compensation failed: ${call.toolName} — ${undo.message}. The store needs manual repair.`, call)
+          );
+        }
+      }
+    }
+  } finally {
+    if (failedCall && revertedCalls.length === executed.length) events.discard();
+    else events.release();
   }
 
+  const notes = [
+    counts.rejected > 0 ? ` ${counts.rejected} rejected by reviewer.` : "",
+    counts.skipped > 0 ? ` ${counts.skipped} skipped without approval.` : "",
+    counts.blocked > 0 ? ` ${counts.blocked} blocked by scope or policy.` : "",
+  ].join("");
+  const unreverted = executed.length - revertedCalls.length;
   logs.push(
-    createLog("execution", modelId, config.name, "execution",
-      `Execution complete. ${discussionResult.approvedCalls.length} tool calls executed.`)
+    failedCall
+      ? createLog("execution", modelId, config.name, "error",
+        `Execution rolled back. ${counts.failed} failed, ${revertedCalls.length} of ${executed.length} executed call(s) reverted` +
+        `${notAttempted > 0 ? `, ${notAttempted} not attempted` : ""}.${unreverted > 0 ? ` ${unreverted} could not be reverted.` : ""}${notes}`)
+      : createLog("execution", modelId, config.name, counts.blocked > 0 ? "error" : "execution",
+        `Execution complete. ${counts.executed} tool calls executed, ${counts.failed} failed.${notes}`)
   );
 
   return {
+    ...discussionResult,
     phase: "execution",
-    result: discussionResult.result,
     logs: [...discussionResult.logs, ...logs],
     validationPassed,
-    blockedCalls: discussionResult.blockedCalls,
-    approvedCalls: discussionResult.approvedCalls,
+    blockedCalls,
+    revertedCalls,
   };
 }
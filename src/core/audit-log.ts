@@ -0,0 +1,163 @@
+import type { LogEntry } from "./types";
+import { sha256Hex } from "./sha256";
+
+// ==========================================
+// Audit Log — append-only and hash-chained.
+// Each entry stores the previous entry's hash
+// and its own hash over both, so modifying,
+// reordering or deleting entries breaks the
+// chain and is caught by verifyAuditLog.
+// ==========================================
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export type AuditLogInput = Omit<LogEntry, "id" | "seq" | "prevHash" | "hash">;
+
+/**
+ * Hash recipe, reproducible offline: SHA-256 (hex) of the canonical JSON of
+ * the entry without its `hash` field — keys sorted, timestamp as ISO 8601,
+ * undefined values omitted.
+ */
+export function hashLogEntry(entry: Omit<LogEntry, "hash">): string {
+  return sha256Hex(canonicalJSON({ ...entry, timestamp: entry.timestamp.toISOString() }));
+}
+
+export function canonicalJSON(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null";
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(",")}]`;
+  const fields = Object.keys(value)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJSON((value as Record<string, unknown>)[key])}`);
+  return `{${fields.join(",")}}`;
+}
+
+export class AuditLog {
+  private log: LogEntry[] = [];
+
+  /** Append an entry, chaining it to the current head. `data` is snapshotted. */
+  append(input: AuditLogInput): LogEntry {
+    const seq = this.log.length + 1;
+    const unhashed: Omit<LogEntry, "hash"> = {
+      ...input,
+      // Tool calls keep changing after they are logged; record them as they were
+      data: input.data === undefined ? undefined : structuredClone(input.data),
+      id: `log-${seq}`,
+      seq,
+      prevHash: this.headHash(),
+    };
+    const entry = Object.freeze({ ...unhashed, hash: hashLogEntry(unhashed) });
+    this.log.push(entry);
+    return entry;
+  }
+
+  entries(): LogEntry[] {
+    return [...this.log];
+  }
+
+  headHash(): string {
+    return this.log.at(-1)?.hash ?? GENESIS_HASH;
+  }
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * Check that `entries` form an unbroken chain. The first entry may start
+ * mid-chain (its prevHash is taken as the anchor) unless `options.fromGenesis`
+ * is set. Pass `expectedHead` to also detect entries cut from the end.
+ */
+export function verifyAuditLog(
+  entries: LogEntry[],
+  options: { fromGenesis?: boolean; expectedHead?: string } = {}
+): AuditVerification {
+  const errors: string[] = [];
+
+  entries.forEach((entry, i) => {
+    const label = `entry ${i + 1} (${entry.id})`;
+    const { hash, ...unhashed } = entry;
+    if (hashLogEntry(unhashed) !== hash) {
+      errors.push(`${label}: hash mismatch — entry was modified`);
+    }
+
+    const previous = entries[i - 1];
+    if (previous) {
+      if (entry.prevHash !== previous.hash) {
+        errors.push(`${label}: prevHash does not match ${previous.id} — entries were reordered, inserted or deleted`);
+      }
+      if (entry.seq !== previous.seq + 1) {
+        errors.push(`${label}: expected seq ${previous.seq + 1}, got ${entry.seq}`);
+      }
+    } else if (options.fromGenesis && (entry.seq !== 1 || entry.prevHash !== GENESIS_HASH)) {
+      errors.push(`${label}: chain does not start at genesis`);
+    }
+  });
+
+  if (options.expectedHead !== undefined && (entries.at(-1)?.hash ?? GENESIS_HASH) !== options.expectedHead) {
+    errors.push(`head hash mismatch — expected ${options.expectedHead}; entries were removed from the end`);
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// ---------- Export ----------
+// JSON Lines: a header with the entry count and head hash, then one entry per line.
+// Export the whole chain; the header describes the file but is not trusted.
+
+interface AuditExportHeader {
+  format: "onebeam-audit-log";
+  version: 1;
+  algorithm: "sha256";
+  count: number;
+  headHash: string;
+  exportedAt: string;
+}
+
+export function exportAuditLog(entries: LogEntry[], exportedAt = new Date()): string {
+  const header: AuditExportHeader = {
+    format: "onebeam-audit-log",
+    version: 1,
+    algorithm: "sha256",
+    count: entries.length,
+    headHash: entries.at(-1)?.hash ?? GENESIS_HASH,
+    exportedAt: exportedAt.toISOString(),
+  };
+  return [header, ...entries].map((line) => JSON.stringify(line)).join("\n") + "\n";
+}
+
+/**
+ * Parse and re-verify an export produced by exportAuditLog, from genesis.
+ * Pass `expectedHead`, a head hash recorded outside the file, to also detect
+ * entries cut from the end.
+ */
+export function verifyAuditExport(
+  text: string,
+  options: { expectedHead?: string } = {}
+): AuditVerification & { entries: LogEntry[] } {
+  const [headerLine, ...lines] = text.split("\n").filter((line) => line.trim() !== "");
+  const header = JSON.parse(headerLine ?? "{}") as Partial<AuditExportHeader>;
+  if (header.format !== "onebeam-audit-log" || header.algorithm !== "sha256") {
+    return { valid: false, errors: ["not an onebeam audit log export"], entries: [] };
+  }
+
+  const entries = lines.map((line) => {
+    const entry = JSON.parse(line) as LogEntry;
+    return { ...entry, timestamp: new Date(entry.timestamp) };
+  });
+  return { ...verifyAuditLog(entries, { fromGenesis: true, expectedHead: options.expectedHead }), entries };
+}
+
+// ---------- Default Audit Log ----------
+let defaultAuditLog = new AuditLog();
+
+export function getDefaultAuditLog(): AuditLog {
+  return defaultAuditLog;
+}
+
+export function setDefaultAuditLog(log: AuditLog): void {
+  defaultAuditLog = log;
+}
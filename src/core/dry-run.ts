@@ -0,0 +1,121 @@
+import type { DataStore, Task, ToolCall, ToolExecutionResult, ToolRejection, Workflow } from "./types";
+import { InMemoryDataStore } from "./store";
+import { executeToolCall } from "./executors";
+import { canonicalJSON } from "./audit-log";
+
+// ==========================================
+// Dry Run — simulates tool calls against a
+// scratch copy of the store and reports the
+// before/after difference. The real store is
+// only read, never written.
+// ==========================================
+
+export interface FieldChange {
+  field: string;
+  before: unknown; // undefined when the field is added
+  after: unknown; // undefined when the field is removed
+}
+
+export interface EntityDiff {
+  entity: "task" | "workflow";
+  id: string; // ids of created entities are provisional
+  name: string;
+  change: "created" | "updated";
+  fields: FieldChange[];
+}
+
+export interface DryRunCall {
+  call: ToolCall;
+  outcome: ToolExecutionResult;
+}
+
+export interface DryRunBlock {
+  call: ToolCall;
+  rejection: ToolRejection;
+}
+
+export interface DryRunResult {
+  calls: DryRunCall[];
+  blocked: DryRunBlock[]; // refused by the gate, never simulated
+  diffs: EntityDiff[]; // empty when rolled back
+  rolledBack: boolean; // a call failed, so execution would undo every change
+}
+
+// Checks a call against the simulated store right before it would run
+export type DryRunGate = (call: ToolCall, store: DataStore) => Promise<ToolRejection | null>;
+
+/** Copy every task and workflow of `store` into a fresh in-memory store. */
+export async function snapshotStore(store: DataStore): Promise<InMemoryDataStore> {
+  return new InMemoryDataStore({ tasks: await store.listTasks(), workflows: await store.listWorkflows() });
+}
+
+/**
+ * Run `calls` in order on a snapshot of `store` and diff the result against it.
+ * Like execution, the run stops at the first failure and changes nothing.
+ */
+export async function dryRunToolCalls(calls: ToolCall[], store: DataStore, gate?: DryRunGate): Promise<DryRunResult> {
+  const before = await snapshotStore(store);
+  const scratch = await snapshotStore(before);
+
+  const results: DryRunCall[] = [];
+  const blocked: DryRunBlock[] = [];
+  for (const call of calls) {
+    const rejection = gate ? await gate(call, scratch) : null;
+    if (rejection) {
+      blocked.push({ call, rejection });
+      continue;
+    }
+    const outcome = await executeToolCall(call, scratch);
+    results.push({ call, outcome });
+    if (!outcome.success) return { calls: results, blocked, diffs: [], rolledBack: true };
+  }
+  return { calls: results, blocked, diffs: await diffStores(before, scratch), rolledBack: false };
+}
+
+export async function diffStores(before: DataStore, after: DataStore): Promise<EntityDiff[]> {
+  const tasks = diffEntities("task", await before.listTasks(), await after.listTasks(), (t: Task) => t.title);
+  const workflows = diffEntities("workflow", await before.listWorkflows(), await after.listWorkflows(), (w: Workflow) => w.name);
+  return [...tasks, ...workflows];
+}
+
+// Set by the store, not the call: hidden on created entities, and timestamps on updates too
+const STORE_ASSIGNED = ["id", "version", "createdAt"];
+const STORE_TIMESTAMPS = ["createdAt"];
+
+function diffEntities<T extends { id: string }>(
+  entity: EntityDiff["entity"],
+  before: T[],
+  after: T[],
+  name: (item: T) => string
+): EntityDiff[] {
+  const previous = new Map(before.map((item) => [item.id, item]));
+  const diffs: EntityDiff[] = [];
+  for (const item of after) {
+    const old = previous.get(item.id);
+    const fields = diffFields(old ?? {}, item).filter((f) => !(old ? STORE_TIMESTAMPS : STORE_ASSIGNED).includes(f.field));
+    if (old && fields.length === 0) continue;
+    diffs.push({ entity, id: item.id, name: name(item), change: old ? "updated" : "created", fields });
+  }
+  return diffs;
+}
+
+function diffFields(before: object, after: object): FieldChange[] {
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  return [...new Set([...Object.keys(b), ...Object.keys(a)])]
+    .filter((field) => canonicalJSON(b[field]) !== canonicalJSON(a[field]))
+    .map((field) => ({ field, before: b[field], after: a[field] }));
+}
+
+/** One line per diff, e.g. `task-001 status: open → in-progress` or `new workflow "Overdue Task Handler"`. */
+export function describeDiff(diff: EntityDiff): string {
+  if (diff.change === "created") return `new ${diff.entity} "${diff.name}"`;
+  return diff.fields
+    .map((f) => `${diff.id} ${f.field}: ${formatValue(f.before)} → ${formatValue(f.after)}`)
+    .join("; ");
+}
+
+export function formatValue(value: unknown): string {
+  if (value === undefined) return "∅";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
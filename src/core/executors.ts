@@ -0,0 +1,150 @@
+import type {
+  DataStore,
+  Task,
+  TaskChanges,
+  TaskFilter,
+  ToolCall,
+  ToolExecutionResult,
+  Workflow,
+  WorkflowInput,
+} from "./types";
+import { isReadOnlyTool } from "./tools";
+
+// ==========================================
+// Tool Executors — one per TOOL_REGISTRY entry.
+// Each executor applies a tool call to the
+// data store and reports what actually happened,
+// and pairs it with a compensation that undoes
+// a successful execution during rollback.
+// ==========================================
+
+export type ToolExecutor = (
+  args: Record<string, unknown>,
+  store: DataStore
+) => Promise<ToolExecutionResult>;
+
+/** Undoes a successful execution, given the call's arguments and the result it returned. */
+export type ToolCompensator = (
+  args: Record<string, unknown>,
+  result: ToolExecutionResult,
+  store: DataStore
+) => Promise<ToolExecutionResult>;
+
+const executors = new Map<string, { execute: ToolExecutor; compensate?: ToolCompensator }>();
+
+/**
+ * Register (or replace) the executor for a tool, with the compensation that
+ * undoes it. Read-only tools need none; a write tool without one cannot be
+ * rolled back. Lets hosts back a tool with their own implementation.
+ */
+export function registerToolExecutor(
+  toolName: string,
+  executor: ToolExecutor,
+  compensate?: ToolCompensator
+): void {
+  executors.set(toolName, { execute: executor, compensate });
+}
+
+export function getToolExecutor(toolName: string): ToolExecutor | undefined {
+  return executors.get(toolName)?.execute;
+}
+
+registerToolExecutor("readTask", async (args, store) => {
+  const taskId = String(args.taskId);
+  const task = await store.getTask(taskId);
+  if (!task) return { success: false, message: `Task not found: ${taskId}` };
+  return { success: true, message: `Read task ${task.id}`, data: task };
+});
+
+registerToolExecutor("listTasks", async (args, store) => {
+  const filter = (args.filter ?? {}) as TaskFilter;
+  const tasks = await store.listTasks(filter);
+  return { success: true, message: `Listed ${tasks.length} task(s)`, data: tasks };
+});
+
+registerToolExecutor(
+  "updateTask",
+  async (args, store) => {
+    const taskId = String(args.taskId);
+    const before = await store.getTask(taskId);
+    if (!before) return { success: false, message: `Task not found: ${taskId}` };
+    const task = await store.updateTask(taskId, (args.updates ?? {}) as TaskChanges);
+    return { success: true, message: `Updated task ${task.id}`, data: { before, after: task } };
+  },
+  async (_args, result, store) => {
+    const { before, after } = result.data as { before: Task; after: Task };
+    // Fields the update added are removed; everything else gets its old value back
+    const restore = Object.fromEntries(
+      Object.keys({ ...before, ...after }).filter((k) => k !== "id").map((k) => [k, before[k as keyof Task]])
+    ) as TaskChanges;
+    await store.updateTask(before.id, restore);
+    return { success: true, message: `Restored task ${before.id}` };
+  }
+);
+
+registerToolExecutor(
+  "createWorkflow",
+  async (args, store) => {
+    const workflow = await store.createWorkflow(args.workflow as WorkflowInput);
+    const message = workflow.version === 1
+      ? `Created workflow "${workflow.name}" (${workflow.id})`
+      : `Saved workflow "${workflow.name}" as version ${workflow.version} (${workflow.id})`;
+    return { success: true, message, data: workflow };
+  },
+  // A new version is undone by restoring the one before it, which history keeps as another version
+  async (_args, result, store) => {
+    const workflow = result.data as Workflow;
+    if (workflow.version === 1) {
+      await store.deleteWorkflow(workflow.id);
+      return { success: true, message: `Deleted workflow "${workflow.name}" (${workflow.id})` };
+    }
+    const restored = await store.rollbackWorkflow(workflow.id, workflow.version - 1);
+    return {
+      success: true,
+      message: `Restored workflow "${workflow.name}" to version ${workflow.version - 1} as version ${restored.version} (${workflow.id})`,
+    };
+  }
+);
+
+/**
+ * Execute a single tool call against the store.
+ * Never throws — store errors are reported as a failed result.
+ */
+export async function executeToolCall(
+  call: ToolCall,
+  store: DataStore
+): Promise<ToolExecutionResult> {
+  const executor = executors.get(call.toolName);
+  if (!executor) {
+    return { success: false, message: `No executor registered for tool "${call.toolName}"` };
+  }
+  try {
+    return await executor.execute(call.arguments, store);
+  } catch (err) {
+    return { success: false, message: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Undo a call that executed successfully (its `result` is the execution outcome).
+ * Never throws — a compensation that cannot be applied is reported as failed.
+ */
+export async function compensateToolCall(
+  call: ToolCall,
+  store: DataStore
+): Promise<ToolExecutionResult> {
+  const executor = executors.get(call.toolName);
+  if (!executor) {
+    return { success: false, message: `No executor registered for tool "${call.toolName}"` };
+  }
+  if (!executor.compensate) {
+    return isReadOnlyTool(call.toolName)
+      ? { success: true, message: "Nothing to undo" }
+      : { success: false, message: `No compensation registered for tool "${call.toolName}"` };
+  }
+  try {
+    return await executor.compensate(call.arguments, call.result as ToolExecutionResult, store);
+  } catch (err) {
+    return { success: false, message: err instanceof Error ? err.message : String(err) };
+  }
+}
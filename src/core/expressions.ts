@@ -0,0 +1,442 @@
+import type { JSONSchema } from "./types";
+import { dereferenceSchema, schemaRegistry } from "./schema-registry";
+import { registerFormat } from "./schema-validator";
+
+// ==========================================
+// Condition Expressions — a small, safe
+// language for workflow conditions, e.g.
+//   task.dueDate < now() && task.priority in ["high", "critical"]
+// Parsed into an AST, type-checked against the
+// entity schemas, then interpreted. Nothing is
+// ever passed to eval or Function.
+// ==========================================
+
+// ---------- AST ----------
+
+export type Expr =
+  | { kind: "literal"; value: string | number | boolean | null; pos: number }
+  | { kind: "array"; items: Expr[]; pos: number }
+  | { kind: "path"; segments: string[]; pos: number }
+  | { kind: "call"; name: string; args: Expr[]; pos: number }
+  | { kind: "not"; operand: Expr; pos: number }
+  | { kind: "binary"; op: BinaryOp; left: Expr; right: Expr; pos: number };
+
+export type BinaryOp = "&&" | "||" | "==" | "!=" | "<" | "<=" | ">" | ">=" | "in";
+
+/** A syntax or type error; `pos` is the 0-based offset in the source. */
+export class ExpressionError extends Error {
+  constructor(
+    readonly detail: string,
+    readonly pos: number
+  ) {
+    super(`at ${pos}: ${detail}`);
+    this.name = "ExpressionError";
+  }
+}
+
+// ---------- Lexer ----------
+
+type Token =
+  | { type: "number"; value: number; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "ident"; value: string; pos: number }
+  | { type: "punct"; value: string; pos: number }
+  | { type: "end"; value: ""; pos: number };
+
+const PUNCTUATION = ["&&", "||", "==", "!=", "<=", ">=", "<", ">", "!", "(", ")", "[", "]", ",", "."];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9]/.test(ch) || (ch === "-" && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const match = /^-?\d+(\.\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: "number", value: Number(match[0]), pos: i });
+      i += match[0].length;
+    } else if (ch === '"' || ch === "'") {
+      const start = i++;
+      let value = "";
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === "\\") i++;
+        value += source[i++] ?? "";
+      }
+      if (i >= source.length) throw new ExpressionError("unterminated string", start);
+      i++;
+      tokens.push({ type: "string", value, pos: start });
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: "ident", value: match[0], pos: i });
+      i += match[0].length;
+    } else {
+      const punct = PUNCTUATION.find((p) => source.startsWith(p, i));
+      if (!punct) throw new ExpressionError(`unexpected character "${ch}"`, i);
+      tokens.push({ type: "punct", value: punct, pos: i });
+      i += punct.length;
+    }
+  }
+  tokens.push({ type: "end", value: "", pos: source.length });
+  return tokens;
+}
+
+// ---------- Parser ----------
+// or := and ("||" and)*    and := unary ("&&" unary)*    unary := "!" unary | comparison
+// comparison := primary (("==" | "!=" | "<" | "<=" | ">" | ">=" | "in") primary)?
+
+// Limits keep the recursive parser and checker well inside the call stack
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_NESTING_DEPTH = 32;
+
+export function parseExpression(source: string): Expr {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+  }
+  const tokens = tokenize(source);
+  let i = 0;
+  let depth = 0;
+  const peek = () => tokens[i];
+  const isPunct = (value: string) => peek().type === "punct" && peek().value === value;
+  const expect = (value: string) => {
+    if (!isPunct(value)) throw new ExpressionError(`expected "${value}"`, peek().pos);
+    i++;
+  };
+
+  // Each bracket, call argument and "!" nests one level deeper
+  const nested = (parse: () => Expr): Expr => {
+    if (++depth > MAX_NESTING_DEPTH) throw new ExpressionError(`nested deeper than ${MAX_NESTING_DEPTH} levels`, tokens[i - 1].pos);
+    const expr = parse();
+    depth--;
+    return expr;
+  };
+  const or = (): Expr => {
+    let left = and();
+    while (isPunct("||")) {
+      const pos = tokens[i++].pos;
+      left = { kind: "binary", op: "||", left, right: and(), pos };
+    }
+    return left;
+  };
+  const and = (): Expr => {
+    let left = unary();
+    while (isPunct("&&")) {
+      const pos = tokens[i++].pos;
+      left = { kind: "binary", op: "&&", left, right: unary(), pos };
+    }
+    return left;
+  };
+  const unary = (): Expr => {
+    if (isPunct("!")) {
+      const pos = tokens[i++].pos;
+      return { kind: "not", operand: nested(unary), pos };
+    }
+    return comparison();
+  };
+  const comparison = (): Expr => {
+    const left = primary();
+    const token = peek();
+    const op = token.type === "punct" && ["==", "!=", "<", "<=", ">", ">="].includes(token.value)
+      ? token.value
+      : token.type === "ident" && token.value === "in" ? "in" : null;
+    if (!op) return left;
+    i++;
+    return { kind: "binary", op: op as BinaryOp, left, right: primary(), pos: token.pos };
+  };
+  const primary = (): Expr => {
+    const token = tokens[i++];
+    if (token.type === "number" || token.type === "string") return { kind: "literal", value: token.value, pos: token.pos };
+    if (token.type === "punct" && token.value === "(") {
+      const inner = nested(or);
+      expect(")");
+      return inner;
+    }
+    if (token.type === "punct" && token.value === "[") {
+      const items: Expr[] = [];
+      while (!isPunct("]")) {
+        items.push(nested(or));
+        if (!isPunct("]")) expect(",");
+      }
+      i++;
+      return { kind: "array", items, pos: token.pos };
+    }
+    if (token.type === "ident") {
+      if (token.value === "true" || token.value === "false") return { kind: "literal", value: token.value === "true", pos: token.pos };
+      if (token.value === "null") return { kind: "literal", value: null, pos: token.pos };
+      if (isPunct("(")) {
+        i++;
+        const args: Expr[] = [];
+        while (!isPunct(")")) {
+          args.push(nested(or));
+          if (!isPunct(")")) expect(",");
+        }
+        i++;
+        return { kind: "call", name: token.value, args, pos: token.pos };
+      }
+      const segments = [token.value];
+      while (isPunct(".")) {
+        i++;
+        const field = tokens[i++];
+        if (field.type !== "ident") throw new ExpressionError("expected a field name after \".\"", field.pos);
+        segments.push(field.value);
+      }
+      return { kind: "path", segments, pos: token.pos };
+    }
+    throw new ExpressionError(token.type === "end" ? "unexpected end of expression" : `unexpected "${token.value}"`, token.pos);
+  };
+
+  const expr = or();
+  if (peek().type !== "end") throw new ExpressionError(`unexpected "${peek().value}"`, peek().pos);
+  return expr;
+}
+
+// ---------- Types ----------
+
+export type ExprType =
+  | { kind: "string"; enum?: string[] }
+  | { kind: "number" }
+  | { kind: "boolean" }
+  | { kind: "datetime" }
+  | { kind: "null" }
+  | { kind: "array"; items: ExprType }
+  | { kind: "object"; properties: Record<string, ExprType> }
+  | { kind: "unknown" };
+
+/** Map a (dereferenced) JSON Schema onto an expression type. */
+export function typeFromSchema(schema: JSONSchema): ExprType {
+  const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== "null") : schema.type;
+  if (schema.enum && schema.enum.every((v) => typeof v === "string")) return { kind: "string", enum: schema.enum as string[] };
+  switch (type) {
+    case "string":
+      return schema.format === "date-time" ? { kind: "datetime" } : { kind: "string" };
+    case "number":
+    case "integer":
+      return { kind: "number" };
+    case "boolean":
+      return { kind: "boolean" };
+    case "array":
+      return { kind: "array", items: schema.items ? typeFromSchema(schema.items) : { kind: "unknown" } };
+    case "object":
+      return {
+        kind: "object",
+        properties: Object.fromEntries(Object.entries(schema.properties ?? {}).map(([k, v]) => [k, typeFromSchema(v)])),
+      };
+    default:
+      return { kind: "unknown" };
+  }
+}
+
+function describeType(type: ExprType): string {
+  return type.kind === "array" ? `array of ${describeType(type.items)}` : type.kind;
+}
+
+export interface ExpressionEnv {
+  variables: Record<string, ExprType>;
+}
+
+/** Variables available to workflow conditions: the triggering task and event. */
+export function workflowConditionEnv(): ExpressionEnv {
+  const task = schemaRegistry.get("Task");
+  return {
+    variables: {
+      task: task ? typeFromSchema(dereferenceSchema(task)) : { kind: "unknown" },
+      event: { kind: "object", properties: { type: { kind: "string" } } },
+    },
+  };
+}
+
+const FUNCTIONS: Record<string, { params: ExprType["kind"][]; returns: ExprType }> = {
+  now: { params: [], returns: { kind: "datetime" } },
+  date: { params: ["string"], returns: { kind: "datetime" } },
+};
+
+/** Type-check an expression; returns every error found. The result must be boolean. */
+export function checkExpression(expr: Expr, env: ExpressionEnv): ExpressionError[] {
+  const errors: ExpressionError[] = [];
+  const type = typeOf(expr, env, errors);
+  if (errors.length === 0 && type.kind !== "boolean" && type.kind !== "unknown") {
+    errors.push(new ExpressionError(`condition must be boolean, got ${describeType(type)}`, expr.pos));
+  }
+  return errors;
+}
+
+function typeOf(expr: Expr, env: ExpressionEnv, errors: ExpressionError[]): ExprType {
+  const fail = (detail: string, pos = expr.pos): ExprType => {
+    errors.push(new ExpressionError(detail, pos));
+    return { kind: "unknown" };
+  };
+
+  switch (expr.kind) {
+    case "literal":
+      return expr.value === null ? { kind: "null" } : { kind: typeof expr.value as "string" | "number" | "boolean" };
+    case "array": {
+      const items = expr.items.map((item) => typeOf(item, env, errors));
+      const first = items.find((t) => t.kind !== "unknown") ?? { kind: "unknown" };
+      if (items.some((t) => t.kind !== first.kind && t.kind !== "unknown")) return fail("array items must all have the same type");
+      return { kind: "array", items: first };
+    }
+    case "path": {
+      const [root, ...fields] = expr.segments;
+      let type: ExprType | undefined = env.variables[root];
+      if (!type) return fail(`unknown variable "${root}" (available: ${Object.keys(env.variables).join(", ")})`);
+      let path = root;
+      for (const field of fields) {
+        if (type.kind === "unknown") return type;
+        if (type.kind !== "object") return fail(`${path} is ${describeType(type)}, it has no field "${field}"`);
+        const next: ExprType | undefined = type.properties[field];
+        if (!next) return fail(`${path} has no field "${field}"`);
+        type = next;
+        path += `.${field}`;
+      }
+      return type;
+    }
+    case "call": {
+      const fn = FUNCTIONS[expr.name];
+      if (!fn) return fail(`unknown function "${expr.name}" (available: ${Object.keys(FUNCTIONS).join(", ")})`);
+      if (expr.args.length !== fn.params.length) {
+        return fail(`${expr.name}() takes ${fn.params.length} argument(s), got ${expr.args.length}`);
+      }
+      expr.args.forEach((arg, i) => {
+        const type = typeOf(arg, env, errors);
+        if (type.kind !== fn.params[i] && type.kind !== "unknown") {
+          fail(`${expr.name}() expects ${fn.params[i]}, got ${describeType(type)}`, arg.pos);
+        }
+      });
+      const [arg] = expr.args;
+      if (expr.name === "date" && arg?.kind === "literal" && Number.isNaN(Date.parse(String(arg.value)))) {
+        fail(`"${arg.value}" is not a valid date`, arg.pos);
+      }
+      return fn.returns;
+    }
+    case "not": {
+      const operand = typeOf(expr.operand, env, errors);
+      if (operand.kind !== "boolean" && operand.kind !== "unknown") return fail(`"!" needs a boolean, got ${describeType(operand)}`);
+      return { kind: "boolean" };
+    }
+    case "binary":
+      return typeOfBinary(expr, typeOf(expr.left, env, errors), typeOf(expr.right, env, errors), fail);
+  }
+}
+
+function typeOfBinary(
+  expr: Extract<Expr, { kind: "binary" }>,
+  left: ExprType,
+  right: ExprType,
+  fail: (detail: string, pos?: number) => ExprType
+): ExprType {
+  const boolean: ExprType = { kind: "boolean" };
+  if (left.kind === "unknown" || right.kind === "unknown") return boolean;
+
+  switch (expr.op) {
+    case "&&":
+    case "||":
+      if (left.kind !== "boolean" || right.kind !== "boolean") {
+        return fail(`"${expr.op}" needs booleans, got ${describeType(left)} and ${describeType(right)}`);
+      }
+      return boolean;
+    case "==":
+    case "!=":
+      if (left.kind !== right.kind && left.kind !== "null" && right.kind !== "null") {
+        return fail(`cannot compare ${describeType(left)} with ${describeType(right)}`);
+      }
+      checkEnum(left, expr.right, fail);
+      checkEnum(right, expr.left, fail);
+      return boolean;
+    case "<":
+    case "<=":
+    case ">":
+    case ">=":
+      if (left.kind !== right.kind || (left.kind !== "number" && left.kind !== "datetime")) {
+        return fail(`"${expr.op}" compares two numbers or two datetimes, got ${describeType(left)} and ${describeType(right)}`);
+      }
+      return boolean;
+    case "in":
+      if (right.kind !== "array") return fail(`"in" needs an array on the right, got ${describeType(right)}`);
+      if (right.items.kind !== left.kind && right.items.kind !== "unknown") {
+        return fail(`cannot look for ${describeType(left)} in ${describeType(right)}`);
+      }
+      if (expr.right.kind === "array") expr.right.items.forEach((item) => checkEnum(left, item, fail));
+      return boolean;
+  }
+}
+
+// A string literal compared against an enum field must be one of its values
+function checkEnum(type: ExprType, other: Expr, fail: (detail: string, pos?: number) => ExprType): void {
+  if (type.kind !== "string" || !type.enum || other.kind !== "literal" || typeof other.value !== "string") return;
+  if (!type.enum.includes(other.value)) {
+    fail(`"${other.value}" is not one of [${type.enum.join(", ")}]`, other.pos);
+  }
+}
+
+// ---------- Evaluation ----------
+
+export interface ExpressionContext {
+  variables: Record<string, unknown>;
+  now: Date;
+}
+
+/** Interpret a checked expression. Missing fields read as null; ordering against null is false. */
+export function evaluateExpression(expr: Expr, context: ExpressionContext): unknown {
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+    case "array":
+      return expr.items.map((item) => evaluateExpression(item, context));
+    case "path": {
+      let value: unknown = context.variables[expr.segments[0]];
+      for (const field of expr.segments.slice(1)) {
+        value = typeof value === "object" && value !== null ? (value as Record<string, unknown>)[field] : undefined;
+      }
+      return value ?? null;
+    }
+    case "call":
+      if (expr.name === "now") return context.now;
+      if (expr.name === "date") return new Date(String(evaluateExpression(expr.args[0], context)));
+      throw new ExpressionError(`unknown function "${expr.name}"`, expr.pos);
+    case "not":
+      return !evaluateExpression(expr.operand, context);
+    case "binary": {
+      if (expr.op === "&&") return evaluateExpression(expr.left, context) === true && evaluateExpression(expr.right, context) === true;
+      if (expr.op === "||") return evaluateExpression(expr.left, context) === true || evaluateExpression(expr.right, context) === true;
+      const left = comparable(evaluateExpression(expr.left, context));
+      const right = evaluateExpression(expr.right, context);
+      if (expr.op === "in") return Array.isArray(right) && right.map(comparable).includes(left);
+      const r = comparable(right);
+      if (expr.op === "==") return left === r;
+      if (expr.op === "!=") return left !== r;
+      if (left === null || r === null) return false;
+      const [a, b] = [left as number, r as number];
+      return expr.op === "<" ? a < b : expr.op === "<=" ? a <= b : expr.op === ">" ? a > b : a >= b;
+    }
+  }
+}
+
+// Datetimes compare by instant, whether they came from now(), date() or an ISO field
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && ISO_DATE_TIME.test(value)) return Date.parse(value);
+  return value;
+}
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// ---------- Workflow Conditions ----------
+
+/** Parse and type-check a workflow condition; returns error messages, empty when valid. */
+export function validateCondition(source: string, env: ExpressionEnv = workflowConditionEnv()): string[] {
+  try {
+    return checkExpression(parseExpression(source), env).map((e) => e.message);
+  } catch (err) {
+    if (err instanceof ExpressionError) return [err.message];
+    throw err;
+  }
+}
+
+/** Evaluate a workflow condition against the triggering task and event. */
+export function evaluateWorkflowCondition(source: string, context: ExpressionContext): boolean {
+  const errors = validateCondition(source);
+  if (errors.length > 0) throw new Error(`Invalid condition "${source}": ${errors.join("; ")}`);
+  return evaluateExpression(parseExpression(source), context) === true;
+}
+
+registerFormat("workflow-condition", (value) => validateCondition(value).join("; ") || null);
@@ -0,0 +1,195 @@
+import type { LogEntry, Phase, ToolCall } from "./types";
+import type { RunRecord } from "./run-history";
+import { sha256Hex } from "./sha256";
+
+// ==========================================
+// Log Export — a run's LogEntry[] as JSONL or
+// CSV, and the run as OpenTelemetry spans
+// (OTLP/JSON) for observability pipelines.
+// ==========================================
+
+export function logsToJSONL(logs: LogEntry[]): string {
+  return logs.map((log) => JSON.stringify(log)).join("\n") + (logs.length ? "\n" : "");
+}
+
+const CSV_COLUMNS = ["seq", "id", "timestamp", "phase", "model", "agent", "type", "message", "data", "prevHash", "hash"] as const;
+
+/** RFC 4180 CSV with a header row; `data` is embedded as JSON. */
+export function logsToCSV(logs: LogEntry[]): string {
+  const rows = logs.map((log) =>
+    CSV_COLUMNS.map((column) => {
+      if (column === "timestamp") return log.timestamp.toISOString();
+      if (column === "data") return log.data === undefined ? "" : JSON.stringify(log.data);
+      return String(log[column]);
+    })
+  );
+  return [[...CSV_COLUMNS], ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// ---------- OpenTelemetry ----------
+// Shapes follow the OTLP/JSON encoding of opentelemetry-proto trace.v1.
+
+type OtelValue = { stringValue: string } | { intValue: string } | { boolValue: boolean };
+
+export interface OtelAttribute {
+  key: string;
+  value: OtelValue;
+}
+
+export interface OtelSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: 1; // SPAN_KIND_INTERNAL
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtelAttribute[];
+  events: { timeUnixNano: string; name: string; attributes: OtelAttribute[] }[];
+  status: { code: 1 | 2; message?: string }; // OK | ERROR
+}
+
+export interface OtelTrace {
+  resourceSpans: {
+    resource: { attributes: OtelAttribute[] };
+    scopeSpans: { scope: { name: string }; spans: OtelSpan[] }[];
+  }[];
+}
+
+/**
+ * One trace per run: a root `agent.run` span, a child span per phase, and a
+ * grandchild span per tool call carrying its permission decision. Every log
+ * entry becomes an event on its phase span. Ids derive from the run id, so
+ * re-exporting a run yields the same trace.
+ */
+export function runToOtelTrace(run: RunRecord): OtelTrace {
+  const traceId = sha256Hex(`trace:${run.id}`).slice(0, 32);
+  const spanId = (name: string) => sha256Hex(`span:${run.id}:${name}`).slice(0, 16);
+  const rootId = spanId("run");
+  const spans: OtelSpan[] = [];
+
+  const phases: Phase[] = ["discussion", "execution"];
+  for (const phase of phases) {
+    const logs = run.logs.filter((l) => l.phase === phase);
+    if (logs.length === 0) continue;
+    const phaseId = spanId(phase);
+    const errors = logs.filter((l) => l.type === "error");
+
+    spans.push({
+      ...span(traceId, phaseId, rootId, `agent.${phase}`, logs),
+      attributes: attributes({ "onebeam.phase": phase, "onebeam.agent": run.request.agent, "gen_ai.request.model": logs[0].model }),
+      events: logs.map((l) => ({
+        timeUnixNano: unixNano(l.timestamp),
+        name: l.type,
+        attributes: attributes({ "log.id": l.id, "log.seq": l.seq, "log.message": l.message, "log.hash": l.hash }),
+      })),
+      status: errors.length > 0 ? { code: 2, message: errors.at(-1)!.message } : { code: 1 },
+    });
+
+    for (const [key, callLogs] of toolCallLogs(logs)) {
+      const call = callLogs.at(-1)!.data as ToolCall;
+      const decision = toolDecision(callLogs);
+      spans.push({
+        ...span(traceId, spanId(`${phase}:${key}`), phaseId, `tool.${call.toolName}`, callLogs),
+        attributes: attributes({
+          "onebeam.tool.name": call.toolName,
+          "onebeam.tool.call_id": call.id,
+          "onebeam.tool.decision": decision,
+          "onebeam.tool.rejection_reason": call.rejection?.reason,
+          "onebeam.tool.arguments": JSON.stringify(call.arguments),
+          "gen_ai.request.model": callLogs[0].model,
+        }),
+        status: decision === "blocked" || decision === "failed"
+          ? { code: 2, message: callLogs.at(-1)!.message }
+          : { code: 1 },
+      });
+    }
+  }
+
+  const executed = run.execution?.approvedCalls.filter((c) => c.status === "executed").length;
+  spans.unshift({
+    ...span(traceId, rootId, undefined, "agent.run", run.logs, new Date(run.createdAt)),
+    attributes: attributes({
+      "onebeam.run.id": run.id,
+      "onebeam.agent": run.request.agent,
+      "onebeam.input": run.request.input,
+      "gen_ai.request.model": run.request.model,
+      "gen_ai.response.model": run.model,
+      "onebeam.validation_passed": (run.execution ?? run.discussion)?.validationPassed,
+      "onebeam.calls.blocked": run.discussion?.blockedCalls.length,
+      "onebeam.calls.executed": executed,
+      "onebeam.calls.reverted": run.execution?.revertedCalls?.length,
+    }),
+    status: run.error ? { code: 2, message: run.error } : { code: 1 },
+  });
+
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: attributes({ "service.name": "onebeam-agent-runtime" }) },
+        scopeSpans: [{ scope: { name: "onebeam.agent-runtime" }, spans }],
+      },
+    ],
+  };
+}
+
+function span(
+  traceId: string,
+  spanId: string,
+  parentSpanId: string | undefined,
+  name: string,
+  logs: LogEntry[],
+  start = logs[0]?.timestamp
+): Omit<OtelSpan, "attributes" | "status"> {
+  const end = logs.at(-1)?.timestamp ?? start;
+  return {
+    traceId,
+    spanId,
+    ...(parentSpanId ? { parentSpanId } : {}),
+    name,
+    kind: 1,
+    startTimeUnixNano: unixNano(start),
+    endTimeUnixNano: unixNano(end),
+    events: [],
+  };
+}
+
+// Log entries whose data is a tool call, grouped by call in first-seen order
+function toolCallLogs(logs: LogEntry[]): Map<string, LogEntry[]> {
+  const byCall = new Map<string, LogEntry[]>();
+  for (const log of logs) {
+    const call = log.data as ToolCall | undefined;
+    if (!call || typeof call !== "object" || typeof call.toolName !== "string" || !("status" in call)) continue;
+    const key = call.id ?? call.toolName;
+    byCall.set(key, [...(byCall.get(key) ?? []), log]);
+  }
+  return byCall;
+}
+
+function toolDecision(logs: LogEntry[]): string {
+  const last = logs.at(-1)!;
+  if (last.type === "blocked") return "blocked";
+  const status = (last.data as ToolCall).status;
+  return status === "pending" ? "proposed" : status === "rejected" ? "blocked" : status;
+}
+
+function attributes(values: Record<string, string | number | boolean | undefined>): OtelAttribute[] {
+  return Object.entries(values)
+    .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value: typeof value === "number"
+        ? { intValue: String(value) }
+        : typeof value === "boolean"
+          ? { boolValue: value }
+          : { stringValue: value },
+    }));
+}
+
+function unixNano(date: Date): string {
+  return `${date.getTime()}000000`;
+}
@@ -0,0 +1,90 @@
+import type { DataStore, Permission, PermissionAction, PermissionResource, ToolCall } from "./types";
+
+// ==========================================
+// Scoped Permissions — grants like
+// `write:tasks[project=onboarding]` or `read:*`.
+// Action and resource accept `*`; scope values
+// are globs matched against the call's target.
+// ==========================================
+
+export interface ParsedPermission {
+  action: PermissionAction | "*";
+  resource: PermissionResource | "*";
+  scope: Record<string, string>; // attribute → glob; empty means unscoped
+}
+
+const PERMISSION_PATTERN = /^(\*|read|write|execute):(\*|tasks|workflows|entities)(?:\[([^\]]*)\])?$/;
+
+export function parsePermission(permission: string): ParsedPermission {
+  const match = PERMISSION_PATTERN.exec(permission);
+  if (!match) throw new Error(`Invalid permission "${permission}": expected action:resource[key=value,...]`);
+
+  const scope: Record<string, string> = {};
+  for (const pair of match[3] ? match[3].split(",") : []) {
+    const [key, value, extra] = pair.split("=").map((s) => s.trim());
+    if (!key || value === undefined || value === "" || extra !== undefined) {
+      throw new Error(`Invalid permission "${permission}": bad scope "${pair}"`);
+    }
+    scope[key] = value;
+  }
+  return { action: match[1] as ParsedPermission["action"], resource: match[2] as ParsedPermission["resource"], scope };
+}
+
+/** Does `grant` cover the action and resource of `required`, ignoring scope? */
+export function grantCovers(grant: Permission, required: Permission): boolean {
+  const g = parsePermission(grant);
+  const r = parsePermission(required);
+  return (g.action === "*" || g.action === r.action) && (g.resource === "*" || g.resource === r.resource);
+}
+
+/** Does every scope constraint of `grant` hold for every target? Unscoped grants always match. */
+export function grantMatchesTargets(grant: Permission, targets: Record<string, unknown>[]): boolean {
+  const { scope } = parsePermission(grant);
+  return Object.entries(scope).every(([key, pattern]) =>
+    targets.every((target) => {
+      const value = target[key];
+      return (typeof value === "string" || typeof value === "number") && globMatch(pattern, String(value));
+    })
+  );
+}
+
+/**
+ * The required permissions not granted for these targets. Without targets
+ * only action and resource are checked — enough to decide which tools an
+ * agent may see, but not whether a specific call is in scope.
+ */
+export function missingPermissions(
+  required: Permission[],
+  grants: Permission[],
+  targets?: Record<string, unknown>[]
+): Permission[] {
+  return required.filter(
+    (r) => !grants.some((g) => grantCovers(g, r) && (!targets || grantMatchesTargets(g, targets)))
+  );
+}
+
+/**
+ * The resources a call acts on, as attribute records for scope matching:
+ * the stored task it names (and the task as it would be after `updates`),
+ * otherwise its list filter or workflow definition, otherwise its arguments.
+ */
+export async function resolveToolTargets(call: ToolCall, store: DataStore): Promise<Record<string, unknown>[]> {
+  const args = call.arguments;
+  if (typeof args.taskId === "string") {
+    const task: Record<string, unknown> = { ...((await store.getTask(args.taskId)) ?? { id: args.taskId }) };
+    const updates = args.updates as Record<string, unknown> | undefined;
+    return updates ? [task, { ...task, ...updates }] : [task];
+  }
+  if (isRecord(args.filter)) return [args.filter];
+  if (isRecord(args.workflow)) return [args.workflow];
+  return [args];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function globMatch(pattern: string, value: string): boolean {
+  const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`).test(value);
+}
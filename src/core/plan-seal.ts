@@ -0,0 +1,186 @@
+import type { ModelId, StructuredResult, ToolCall } from "./types";
+import { canonicalJSON } from "./audit-log";
+import { hmacSha256Hex, sha256Hex } from "./sha256";
+
+// ==========================================
+// Plan Seal — the discussion phase signs the
+// plan it produced; execution refuses plans
+// that were altered, have expired, or were
+// already executed (by idempotency key).
+// ==========================================
+
+export const DEFAULT_PLAN_TTL_MS = 15 * 60_000;
+
+export interface PlanSeal {
+  idempotencyKey: string;
+  agent: string;
+  issuedAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601
+  calls: SealedCall[]; // the proposed calls, in order
+  signature: string; // HMAC-SHA256 over the sealed fields, hex
+}
+
+/** One proposed call as the model made it, before any review. */
+export interface SealedCall {
+  id?: string;
+  toolName: string;
+  argumentsHash: string; // SHA-256 of the canonical JSON arguments
+}
+
+/** The parts of a discussion result a seal covers. */
+export interface SealablePlan {
+  model: ModelId;
+  result: StructuredResult;
+  approvedCalls: ToolCall[];
+}
+
+export type PlanRejectionReason = "unsealed" | "altered" | "expired" | "already_executed";
+
+export interface PlanVerification {
+  valid: boolean;
+  reason?: PlanRejectionReason;
+  message?: string;
+}
+
+/**
+ * Signs and verifies plans with a secret that never leaves the runtime.
+ * Each call's proposed arguments are sealed as a hash. A call may only run
+ * with other arguments if its review keeps the proposal in
+ * `review.originalArguments` and carries a signature from `signEdit`; the
+ * edit is still re-checked against the schema, scopes and policies.
+ */
+export class PlanSigner {
+  private readonly secret: string;
+  private readonly ttlMs: number;
+  private readonly now: () => Date;
+
+  constructor(options: { secret?: string; ttlMs?: number; now?: () => Date } = {}) {
+    this.secret = options.secret ?? randomSecret();
+    this.ttlMs = options.ttlMs ?? DEFAULT_PLAN_TTL_MS;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  seal(plan: SealablePlan, agent: string): PlanSeal {
+    const issuedAt = this.now();
+    const unsigned = {
+      idempotencyKey: crypto.randomUUID(),
+      agent,
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: new Date(issuedAt.getTime() + this.ttlMs).toISOString(),
+      calls: plan.approvedCalls.map((c) => ({ id: c.id, toolName: c.toolName, argumentsHash: hashArguments(c.arguments) })),
+    };
+    return { ...unsigned, signature: this.sign(unsigned, plan) };
+  }
+
+  verify(plan: SealablePlan & { plan?: PlanSeal }, agent: string): PlanVerification {
+    const seal = plan.plan;
+    if (!seal) return { valid: false, reason: "unsealed", message: "plan carries no seal from the discussion phase" };
+
+    if (seal.agent !== agent) {
+      return { valid: false, reason: "altered", message: `plan was sealed for agent "${seal.agent}", not "${agent}"` };
+    }
+    const { signature, ...unsigned } = seal;
+    if (this.sign(unsigned, plan) !== signature) {
+      return { valid: false, reason: "altered", message: "plan does not match its seal — it was altered after discussion" };
+    }
+    if (plan.approvedCalls.length !== seal.calls.length) {
+      return { valid: false, reason: "altered", message: `plan has ${plan.approvedCalls.length} call(s), but ${seal.calls.length} were sealed` };
+    }
+    const mismatch = plan.approvedCalls.findIndex((call, i) => !matchesProposal(call, seal.calls[i]));
+    if (mismatch !== -1) {
+      const call = plan.approvedCalls[mismatch];
+      return {
+        valid: false,
+        reason: "altered",
+        message: `call ${call.id ?? mismatch + 1} (${call.toolName}) does not match the arguments the model proposed`,
+      };
+    }
+    const unsignedEdit = plan.approvedCalls.findIndex((call, i) => !this.isProposedOrSignedEdit(call, seal.calls[i]));
+    if (unsignedEdit !== -1) {
+      const call = plan.approvedCalls[unsignedEdit];
+      return {
+        valid: false,
+        reason: "altered",
+        message: `call ${call.id ?? unsignedEdit + 1} (${call.toolName}) was edited without a signed review`,
+      };
+    }
+    if (this.now().getTime() > Date.parse(seal.expiresAt)) {
+      return { valid: false, reason: "expired", message: `plan expired at ${seal.expiresAt}` };
+    }
+    return { valid: true };
+  }
+
+  /** Seals a reviewer's edit of `call`, from its original arguments to the current ones. */
+  signEdit(call: ToolCall): string {
+    const original = call.review?.originalArguments ?? call.arguments;
+    return hmacSha256Hex(
+      this.secret,
+      canonicalJSON({ call: call.id, toolName: call.toolName, from: hashArguments(original), to: hashArguments(call.arguments) })
+    );
+  }
+
+  // Calls run with the proposed arguments, or with an edit the signer sealed
+  private isProposedOrSignedEdit(call: ToolCall, sealed: SealedCall): boolean {
+    if (hashArguments(call.arguments) === sealed.argumentsHash) return true;
+    return call.review?.originalArguments !== undefined && call.review.signature === this.signEdit(call);
+  }
+
+  private sign(unsigned: Omit<PlanSeal, "signature">, plan: SealablePlan): string {
+    return hmacSha256Hex(this.secret, canonicalJSON({ ...unsigned, model: plan.model, data: plan.result.data }));
+  }
+}
+
+function hashArguments(args: Record<string, unknown>): string {
+  return sha256Hex(canonicalJSON(args));
+}
+
+// Unedited calls must carry the proposed arguments; edited ones must keep them as the original
+function matchesProposal(call: ToolCall, sealed: SealedCall): boolean {
+  return (
+    call.id === sealed.id &&
+    call.toolName === sealed.toolName &&
+    hashArguments(call.review?.originalArguments ?? call.arguments) === sealed.argumentsHash
+  );
+}
+
+function randomSecret(): string {
+  return [...crypto.getRandomValues(new Uint8Array(32))].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ---------- Idempotency ----------
+
+/** Remembers which plans have been executed. */
+export interface IdempotencyStore {
+  /** Record the key; false when it was already recorded. */
+  claim(key: string): Promise<boolean>;
+}
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private keys = new Set<string>();
+
+  async claim(key: string): Promise<boolean> {
+    if (this.keys.has(key)) return false;
+    this.keys.add(key);
+    return true;
+  }
+}
+
+// ---------- Defaults ----------
+let defaultPlanSigner = new PlanSigner();
+let defaultIdempotencyStore: IdempotencyStore = new InMemoryIdempotencyStore();
+
+export function getDefaultPlanSigner(): PlanSigner {
+  return defaultPlanSigner;
+}
+
+export function setDefaultPlanSigner(signer: PlanSigner): void {
+  defaultPlanSigner = signer;
+}
+
+export function getDefaultIdempotencyStore(): IdempotencyStore {
+  return defaultIdempotencyStore;
+}
+
+export function setDefaultIdempotencyStore(store: IdempotencyStore): void {
+  defaultIdempotencyStore = store;
+}
@@ -0,0 +1,190 @@
+import type {
+  AgentConfig,
+  DataStore,
+  JSONSchema,
+  PolicyCondition,
+  PolicyDecision,
+  PolicyEffect,
+  ToolCall,
+  ToolPolicy,
+  WorkflowTrigger,
+} from "./types";
+import { validateAgainstSchema } from "./schema-validator";
+import { canonicalJSON } from "./audit-log";
+import { minutesBetweenRuns } from "./schedule";
+
+// ==========================================
+// Policy Engine — evaluates an agent's
+// declarative argument-level policies against
+// each tool call. Runs after the coarse
+// tool/permission gate and argument validation.
+// ==========================================
+
+export type PolicyContext = Record<string, unknown>;
+
+const EFFECT_RANK: Record<PolicyEffect, number> = { allow: 0, require_approval: 1, deny: 2 };
+
+/**
+ * Evaluate every policy that targets the call's tool. The strictest matching
+ * effect wins; with no matching policy the call is allowed.
+ */
+export function evaluatePolicies(policies: ToolPolicy[], call: ToolCall, context: PolicyContext): PolicyDecision {
+  const matched = policies
+    .filter((p) => (p.tool === "*" || p.tool === call.toolName) && (!p.when || evaluateCondition(p.when, context)))
+    .map(({ id, effect, reason }) => ({ id, effect, reason }));
+  const effect = matched.reduce<PolicyEffect>(
+    (strictest, m) => (EFFECT_RANK[m.effect] > EFFECT_RANK[strictest] ? m.effect : strictest),
+    "allow"
+  );
+  return { effect, matched };
+}
+
+export function evaluateCondition(condition: PolicyCondition, context: PolicyContext): boolean {
+  if ("all" in condition) return condition.all.every((c) => evaluateCondition(c, context));
+  if ("any" in condition) return condition.any.some((c) => evaluateCondition(c, context));
+  if ("not" in condition) return !evaluateCondition(condition.not, context);
+
+  const value = resolvePath(context, condition.path);
+  if (condition.exists !== undefined && (value !== undefined) !== condition.exists) return false;
+  if ("equals" in condition && !deepEqual(value, condition.equals)) return false;
+  if ("notEquals" in condition && deepEqual(value, condition.notEquals)) return false;
+  if (condition.in && !condition.in.some((v) => deepEqual(value, v))) return false;
+  if (condition.matches !== undefined && !(typeof value === "string" && new RegExp(condition.matches).test(value))) {
+    return false;
+  }
+  if (condition.equalsPath && !deepEqual(value, resolvePath(context, condition.equalsPath))) return false;
+  if (condition.notEqualsPath && deepEqual(value, resolvePath(context, condition.notEqualsPath))) return false;
+  return true;
+}
+
+export function resolvePath(context: PolicyContext, path: string): unknown {
+  let current: unknown = context;
+  for (const key of path.split(".")) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * The context policies see: the call's arguments, the agent, the task it
+ * targets, and for a timed workflow trigger how often it would run.
+ */
+export async function buildPolicyContext(
+  call: ToolCall,
+  config: Pick<AgentConfig, "name" | "permissions">,
+  store: DataStore,
+  now: Date = new Date()
+): Promise<PolicyContext> {
+  const taskId = call.arguments.taskId;
+  return {
+    args: call.arguments,
+    agent: { name: config.name, permissions: config.permissions },
+    task: typeof taskId === "string" ? await store.getTask(taskId) : undefined,
+    schedule: describeSchedule(call, now),
+  };
+}
+
+function describeSchedule(call: ToolCall, now: Date): { minutesBetweenRuns: number } | undefined {
+  const trigger = (call.arguments.workflow as { trigger?: WorkflowTrigger } | undefined)?.trigger;
+  if (trigger?.type !== "cron" && trigger?.type !== "interval") return undefined;
+  try {
+    const minutes = minutesBetweenRuns(trigger, now);
+    return minutes === undefined ? undefined : { minutesBetweenRuns: minutes };
+  } catch {
+    return undefined; // an invalid cron fails argument validation instead
+  }
+}
+
+/** One-line summary of why a decision was reached, for logs and rejections. */
+export function describeDecision(decision: PolicyDecision): string {
+  return decision.matched
+    .filter((m) => m.effect === decision.effect)
+    .map((m) => `policy "${m.id}": ${m.reason}`)
+    .join("; ");
+}
+
+// ---------- Policy Files ----------
+
+export const POLICY_FILE_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    policies: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string", minLength: 1 },
+          tool: { type: "string", minLength: 1 },
+          effect: { enum: ["allow", "deny", "require_approval"] },
+          when: { $ref: "#/$defs/condition" },
+          reason: { type: "string", minLength: 1 },
+        },
+        required: ["id", "tool", "effect", "reason"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["policies"],
+  additionalProperties: false,
+  $defs: {
+    condition: {
+      oneOf: [
+        { type: "object", properties: { all: { type: "array", items: { $ref: "#/$defs/condition" } } }, required: ["all"], additionalProperties: false },
+        { type: "object", properties: { any: { type: "array", items: { $ref: "#/$defs/condition" } } }, required: ["any"], additionalProperties: false },
+        { type: "object", properties: { not: { $ref: "#/$defs/condition" } }, required: ["not"], additionalProperties: false },
+        {
+          type: "object",
+          properties: {
+            path: { type: "string", minLength: 1 },
+            equals: {},
+            notEquals: {},
+            in: { type: "array" },
+            matches: { type: "string" },
+            exists: { type: "boolean" },
+            equalsPath: { type: "string" },
+            notEqualsPath: { type: "string" },
+          },
+          required: ["path"],
+          additionalProperties: false,
+        },
+      ],
+    },
+  },
+};
+
+/** Validate a parsed policy file; throws with every problem and the file name. */
+export function parsePolicyFile(data: unknown, source: string): ToolPolicy[] {
+  const validation = validateAgainstSchema(data, POLICY_FILE_SCHEMA);
+  if (!validation.valid) {
+    throw new Error(`Invalid policy file ${source}: ${validation.errors.join("; ")}`);
+  }
+
+  const policies = (data as { policies: ToolPolicy[] }).policies;
+  const seen = new Set<string>();
+  for (const policy of policies) {
+    if (seen.has(policy.id)) throw new Error(`Invalid policy file ${source}: duplicate policy id "${policy.id}"`);
+    seen.add(policy.id);
+    checkPatterns(policy.when, `${source}#${policy.id}`);
+  }
+  return policies;
+}
+
+function checkPatterns(condition: PolicyCondition | undefined, where: string): void {
+  if (!condition) return;
+  if ("all" in condition) condition.all.forEach((c) => checkPatterns(c, where));
+  else if ("any" in condition) condition.any.forEach((c) => checkPatterns(c, where));
+  else if ("not" in condition) checkPatterns(condition.not, where);
+  else if (condition.matches !== undefined) {
+    try {
+      new RegExp(condition.matches);
+    } catch {
+      throw new Error(`Invalid policy file ${where}: invalid regex "${condition.matches}"`);
+    }
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === undefined || b === undefined) return a === b;
+  return canonicalJSON(a) === canonicalJSON(b);
+}
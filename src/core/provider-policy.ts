@@ -0,0 +1,117 @@
+import type { LLMProvider, ModelId, ProviderPolicy } from "./types";
+import { getProvider } from "./providers";
+import { NetworkError, ProviderHttpError } from "./transport";
+
+// ==========================================
+// Provider Policy — timeouts, retries with
+// exponential backoff, and an ordered chain of
+// fallback models around each provider call.
+// ==========================================
+
+export const DEFAULT_PROVIDER_POLICY: Required<ProviderPolicy> = {
+  timeoutMs: 60_000,
+  maxRetries: 2,
+  backoffMs: 500,
+  fallbackModels: [],
+};
+
+export class ProviderTimeoutError extends Error {
+  constructor(
+    readonly modelId: ModelId,
+    readonly timeoutMs: number
+  ) {
+    super(`${modelId} timed out after ${timeoutMs}ms`);
+    this.name = "ProviderTimeoutError";
+  }
+}
+
+/** What happened on one provider call and what the policy does next. */
+export interface ProviderAttempt {
+  modelId: ModelId;
+  attempt: number; // 1-based, per model
+  durationMs: number;
+  error?: string;
+  next: "done" | "retry" | "fallback" | "give_up";
+  retryInMs?: number; // set when next is "retry"
+  fallbackTo?: ModelId; // set when next is "fallback"
+}
+
+/** Rate limits, server errors, timeouts and network failures are worth retrying. */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderHttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  // Only failures the transport raised; a TypeError from an adapter is a bug to surface
+  return error instanceof ProviderTimeoutError || error instanceof NetworkError;
+}
+
+/** The models to try, in order: the primary, then its fallbacks without repeats. */
+export function modelChain(primary: ModelId, policy: ProviderPolicy = {}): ModelId[] {
+  return [...new Set([primary, ...(policy.fallbackModels ?? [])])];
+}
+
+/**
+ * Call `run` against each model in `models` until one succeeds. Retryable
+ * errors are retried on the same model with exponential backoff; other
+ * errors, or running out of retries, move on to the next model. Throws the
+ * last error once every model is exhausted. `attempt` counts every call.
+ */
+export async function callWithPolicy<T>(
+  models: ModelId[],
+  policy: ProviderPolicy,
+  run: (provider: LLMProvider, signal: AbortSignal, attempt: number) => Promise<T>,
+  onAttempt: (attempt: ProviderAttempt) => void = () => {}
+): Promise<{ value: T; modelId: ModelId }> {
+  const { timeoutMs, maxRetries, backoffMs } = { ...DEFAULT_PROVIDER_POLICY, ...policy };
+  let totalAttempts = 0;
+  let lastError: unknown;
+
+  for (const [index, modelId] of models.entries()) {
+    const provider = getProvider(modelId);
+    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+      const started = Date.now();
+      try {
+        const value = await withTimeout(modelId, timeoutMs, (signal) => run(provider, signal, ++totalAttempts));
+        onAttempt({ modelId, attempt, durationMs: Date.now() - started, next: "done" });
+        return { value, modelId };
+      } catch (error) {
+        lastError = error;
+        const base = { modelId, attempt, durationMs: Date.now() - started, error: errorMessage(error) };
+        if (isRetryableError(error) && attempt <= maxRetries) {
+          const retryInMs = backoffMs * 2 ** (attempt - 1);
+          onAttempt({ ...base, next: "retry", retryInMs });
+          await sleep(retryInMs);
+          continue;
+        }
+        const fallbackTo = models[index + 1];
+        onAttempt(fallbackTo ? { ...base, next: "fallback", fallbackTo } : { ...base, next: "give_up" });
+        break;
+      }
+    }
+  }
+  throw lastError;
+}
+
+async function withTimeout<T>(modelId: ModelId, timeoutMs: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ProviderTimeoutError(modelId, timeoutMs));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer!);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
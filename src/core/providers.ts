@@ -1,11 +1,27 @@
   import type {
   LLMProvider,
   StructuredResult,
-  ToolDefinition,
   JSONSchema,
   ToolCall,
   ModelId,
+  GenerateOptions,
+  ConversationMessage,
+  StreamEvent,
 } from "./types";
+import {
+  normalizeOpenAIStream,
+  normalizeAnthropicStream,
+  normalizeGeminiStream,
+  parseJSONObject,
+  withDoneEvent,
+  type OpenAIStreamChunk,
+  type AnthropicStreamEvent,
+  type GeminiStreamChunk,
+} from "./streaming";
+import { fetchTransport, postJSON, readServerSentEvents, type Transport } from "./transport";
+import { ScriptedProvider } from "./scripted-provider";
+import demoScript from "./demo-script.json";
+import { dereferenceSchema } from "./schema-registry";
 
 // ==========================================
 // LLM Provider Adapters
@@ -14,274 +30,412 @@
 // ==========================================
 
 /**
- * Simulates model-specific behavior for each provider.
- * In production, these would make real API calls.
- * The adapter logic is REAL and model-specific — only the HTTP call is mocked.
+ * Each adapter builds its vendor's request body, sends it through an
+ * injectable Transport, and parses the vendor response (or event stream)
+ * back into a StructuredResult. Keys come from VITE_*_API_KEY; for
+ * offline use pick the scripted model instead.
  */
+export interface ProviderConnection {
+  transport: Transport;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+function defaultConnection(apiKey: string | undefined): ProviderConnection {
+  return { transport: fetchTransport, apiKey };
+}
 
 // ---------- OpenAI GPT-5.2 Adapter ----------
-class OpenAIProvider implements LLMProvider {
+export class OpenAIProvider implements LLMProvider {
   readonly modelId: ModelId = "gpt-5.2";
   readonly displayName = "OpenAI GPT-5.2";
   readonly vendor = "openai" as const;
 
-  async generateStructuredOutput(options: {
-    systemPrompt: string;
-    userPrompt: string;
-    tools: ToolDefinition[];
-    outputSchema: JSONSchema;
-  }): Promise<StructuredResult> {
-    // OpenAI-specific: uses function_call with strict JSON mode
-    // The request would be formatted as:
-    // {
-    //   model: "gpt-5.2",
-    //   messages: [{ role: "system", content }, { role: "user", content }],
-    //   tools: tools.map(t => ({ type: "function", function: { name, description, parameters } })),
-    //   response_format: { type: "json_schema", json_schema: { schema: outputSchema } },
-    //   tool_choice: "auto"
-    // }
-
-    await simulateLatency(800, 1500);
-
-    const toolCalls = this.extractToolCalls(options.userPrompt, options.tools);
-    const data = this.generateStructuredData(options.userPrompt, options.outputSchema);
+  constructor(
+    private readonly connection: ProviderConnection = defaultConnection(import.meta.env.VITE_OPENAI_API_KEY)
+  ) {}
 
-    return {
-      success: true,
-      data,
-      toolCalls,
-      reasoning: `[GPT-5.2] Analyzed request using structured output mode with JSON schema enforcement. Tools evaluated: ${options.tools.map(t => t.name).join(", ")}.`,
-    };
+  async generateStructuredOutput(options: GenerateOptions): Promise<StructuredResult> {
+    const response = await this.send(this.buildRequest(options), options.signal);
+    return this.parseResponse((await response.json()) as OpenAIChatResponse);
   }
 
-  private extractToolCalls(prompt: string, tools: ToolDefinition[]): ToolCall[] {
-    const calls: ToolCall[] = [];
-    const lower = prompt.toLowerCase();
-
-    if ((lower.includes("overdue") || lower.includes("urgent")) && tools.find(t => t.name === "createWorkflow")) {
-      calls.push({
-        toolName: "createWorkflow",
-        arguments: {
-          workflow: {
-            name: "Overdue Task Handler",
-            trigger: "task.overdue",
-            steps: [{ type: "update", entity: "Task", update: { status: "urgent" } }],
-          },
-        },
-        status: "pending",
-      });
-    }
+  async *streamStructuredOutput(options: GenerateOptions): AsyncGenerator<StreamEvent> {
+    const response = await this.send({ ...this.buildRequest(options), stream: true }, options.signal);
+    yield* withDoneEvent(normalizeOpenAIStream(readServerSentEvents<OpenAIStreamChunk>(response, this.vendor, options.signal)));
+  }
 
-    if (lower.includes("list") && tools.find(t => t.name === "listTasks")) {
-      calls.push({
-        toolName: "listTasks",
-        arguments: { filter: {} },
-        status: "pending",
-      });
-    }
+  private send(body: OpenAIChatRequest, signal?: AbortSignal): Promise<Response> {
+    const { transport, apiKey, baseUrl = "https://api.openai.com" } = this.connection;
+    return postJSON(transport, this.vendor, `${baseUrl}/v1/chat/completions`, { authorization: `Bearer ${apiKey ?? ""}` }, body, signal);
+  }
 
-    if (lower.includes("update") && tools.find(t => t.name === "updateTask")) {
-      calls.push({
-        toolName: "updateTask",
-        arguments: { taskId: "task-001", updates: { status: "in-progress" } },
-        status: "pending",
-      });
-    }
+  private buildRequest(options: GenerateOptions): OpenAIChatRequest {
+    // OpenAI-specific: uses function_call with strict JSON mode.
+    // Tool results go back as { role: "tool", tool_call_id } messages.
+    return {
+      model: "gpt-5.2",
+      messages: this.buildMessages(options),
+      tools: options.tools.length > 0
+        ? options.tools.map((t) => ({
+            type: "function" as const,
+            function: { name: t.name, description: t.description, parameters: toVendorSchema(t.parameters) },
+          }))
+        : undefined,
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "structured_output", schema: toVendorSchema(options.outputSchema) },
+      },
+      tool_choice: "auto",
+    };
+  }
 
-    // Test: if prompt tries to use a tool not in the list, simulate attempt
-    if (lower.includes("delete") || lower.includes("drop") || lower.includes("eval")) {
-      calls.push({
-        toolName: "deleteDatabase",
-        arguments: { target: "all" },
-        status: "pending",
-      });
+  private buildMessages(options: GenerateOptions): OpenAIMessage[] {
+    const messages: OpenAIMessage[] = [{ role: "system", content: options.systemPrompt }];
+    for (const m of conversationOf(options)) {
+      if (m.role === "user") {
+        messages.push({ role: "user", content: m.content });
+      } else if (m.role === "assistant") {
+        messages.push({
+          role: "assistant",
+          content: m.content ?? null,
+          tool_calls: m.toolCalls.length > 0
+            ? m.toolCalls.map((c) => ({
+                id: c.id,
+                type: "function",
+                function: { name: c.toolName, arguments: JSON.stringify(c.arguments) },
+              }))
+            : undefined,
+        });
+      } else {
+        messages.push({ role: "tool", tool_call_id: m.toolCallId, content: JSON.stringify(m.result) });
+      }
     }
-
-    return calls;
+    return messages;
   }
 
-  private generateStructuredData(prompt: string, schema: JSONSchema): Record<string, unknown> {
-    return generateMockData(prompt, schema);
+  private parseResponse(body: OpenAIChatResponse): StructuredResult {
+    const message = body.choices[0]?.message;
+    if (!message) throw new Error("openai API returned no choices");
+
+    const toolCalls: ToolCall[] = (message.tool_calls ?? []).map((c) => ({
+      id: c.id,
+      toolName: c.function.name,
+      arguments: parseJSONObject(c.function.arguments) ?? {},
+      status: "pending",
+    }));
+    const data = message.content ? parseJSONObject(message.content) : {};
+    return {
+      success: data !== null,
+      data: data ?? {},
+      toolCalls,
+      reasoning: message.reasoning,
+      rawOutput: message.content ?? undefined,
+    };
   }
 }
 
 // ---------- Anthropic Claude Opus 4.6 Adapter ----------
-class ClaudeProvider implements LLMProvider {
+export class ClaudeProvider implements LLMProvider {
   readonly modelId: ModelId = "claude-opus-4.6";
   readonly displayName = "Claude Opus 4.6";
   readonly vendor = "anthropic" as const;
 
-  async generateStructuredOutput(options: {
-    systemPrompt: string;
-    userPrompt: string;
-    tools: ToolDefinition[];
-    outputSchema: JSONSchema;
-  }): Promise<StructuredResult> {
-    // Anthropic-specific: uses tool_use blocks with structured JSON
-    // The request would be formatted as:
-    // {
-    //   model: "claude-opus-4.6",
-    //   system: systemPrompt,
-    //   messages: [{ role: "user", content: userPrompt }],
-    //   tools: tools.map(t => ({ name, description, input_schema: t.parameters })),
-    //   tool_choice: { type: "auto" }
-    // }
-    // Claude returns content blocks: [{ type: "tool_use", id, name, input }]
+  constructor(
+    private readonly connection: ProviderConnection = defaultConnection(import.meta.env.VITE_ANTHROPIC_API_KEY)
+  ) {}
 
-    await simulateLatency(1000, 2000);
+  async generateStructuredOutput(options: GenerateOptions): Promise<StructuredResult> {
+    const response = await this.send(this.buildRequest(options), options.signal);
+    return this.parseResponse((await response.json()) as AnthropicResponse);
+  }
 
-    const toolCalls = this.extractToolCalls(options.userPrompt, options.tools);
-    const data = this.generateStructuredData(options.userPrompt, options.outputSchema);
+  async *streamStructuredOutput(options: GenerateOptions): AsyncGenerator<StreamEvent> {
+    const response = await this.send({ ...this.buildRequest(options), stream: true }, options.signal);
+    yield* withDoneEvent(normalizeAnthropicStream(readServerSentEvents<AnthropicStreamEvent>(response, this.vendor, options.signal)));
+  }
 
+  private send(body: AnthropicRequest, signal?: AbortSignal): Promise<Response> {
+    const { transport, apiKey, baseUrl = "https://api.anthropic.com" } = this.connection;
+    return postJSON(transport, this.vendor, `${baseUrl}/v1/messages`, {
+      "x-api-key": apiKey ?? "",
+      "anthropic-version": "2023-06-01",
+      "anthropic-beta": "structured-outputs-2025-11-13",
+      "anthropic-dangerous-direct-browser-access": "true",
+    }, body, signal);
+  }
+
+  private buildRequest(options: GenerateOptions): AnthropicRequest {
+    // Anthropic-specific: uses tool_use blocks with structured JSON.
+    // Claude returns content blocks: [{ type: "tool_use", id, name, input }]
+    // and expects answers as tool_result blocks in the next user turn.
     return {
-      success: true,
-      data,
-      toolCalls,
-      reasoning: `[Claude Opus 4.6] Applied chain-of-thought reasoning with tool_use blocks. Validated output against schema before returning. Tools available: ${options.tools.map(t => t.name).join(", ")}.`,
+      model: "claude-opus-4.6",
+      max_tokens: 8192,
+      system: options.systemPrompt,
+      messages: this.buildMessages(options),
+      tools: options.tools.length > 0
+        ? options.tools.map((t) => ({ name: t.name, description: t.description, input_schema: toVendorSchema(t.parameters) }))
+        : undefined,
+      tool_choice: options.tools.length > 0 ? { type: "auto" } : undefined,
+      output_format: { type: "json_schema", schema: toVendorSchema(options.outputSchema) },
+      thinking: { type: "enabled", budget_tokens: 2048 },
     };
   }
 
-  private extractToolCalls(prompt: string, tools: ToolDefinition[]): ToolCall[] {
-    const calls: ToolCall[] = [];
-    const lower = prompt.toLowerCase();
-
-    if ((lower.includes("workflow") || lower.includes("overdue")) && tools.find(t => t.name === "createWorkflow")) {
-      calls.push({
-        toolName: "createWorkflow",
-        arguments: {
-          workflow: {
-            name: "Overdue → Urgent Escalation",
-            trigger: "task.overdue",
-            steps: [
-              { type: "update", entity: "Task", update: { status: "urgent" } },
-              { type: "notify", entity: "User", update: { message: "Task escalated to urgent" } },
-            ],
-          },
-        },
-        status: "pending",
-      });
-    }
-
-    if (lower.includes("list") && tools.find(t => t.name === "listTasks")) {
-      calls.push({ toolName: "listTasks", arguments: { filter: {} }, status: "pending" });
-    }
-
-    if (lower.includes("delete") || lower.includes("drop") || lower.includes("eval")) {
-      calls.push({ toolName: "executeRawSQL", arguments: { query: "DROP TABLE tasks" }, status: "pending" });
+  private buildMessages(options: GenerateOptions): AnthropicMessage[] {
+    const messages: AnthropicMessage[] = [];
+    for (const m of conversationOf(options)) {
+      if (m.role === "user") {
+        messages.push({ role: "user", content: m.content });
+      } else if (m.role === "assistant") {
+        // Signed thinking blocks go back first and unchanged, as the API requires on tool-use turns
+        const thinking = m.nativeReasoning?.vendor === this.vendor ? (m.nativeReasoning.blocks as AnthropicThinkingBlock[]) : [];
+        messages.push({
+          role: "assistant",
+          content: [
+            ...thinking,
+            ...(m.content ? [{ type: "text" as const, text: m.content }] : []),
+            ...m.toolCalls.map((c) => ({ type: "tool_use" as const, id: c.id, name: c.toolName, input: c.arguments })),
+          ],
+        });
+      } else {
+        // Consecutive tool results share a single user turn
+        const block = {
+          type: "tool_result" as const,
+          tool_use_id: m.toolCallId,
+          content: JSON.stringify(m.result),
+          is_error: !m.result.success,
+        };
+        const last = messages[messages.length - 1];
+        if (last?.role === "user" && Array.isArray(last.content)) last.content.push(block);
+        else messages.push({ role: "user", content: [block] });
+      }
     }
-
-    return calls;
+    return messages;
   }
 
-  private generateStructuredData(prompt: string, schema: JSONSchema): Record<string, unknown> {
-    return generateMockData(prompt, schema);
+  private parseResponse(body: AnthropicResponse): StructuredResult {
+    let text = "";
+    let reasoning = "";
+    const thinking: AnthropicThinkingBlock[] = [];
+    const toolCalls: ToolCall[] = [];
+    for (const block of body.content) {
+      if (block.type === "thinking" || block.type === "redacted_thinking") {
+        thinking.push(block);
+        if (block.type === "thinking") reasoning += block.thinking;
+      } else if (block.type === "text") text += block.text;
+      else if (block.type === "tool_use") {
+        toolCalls.push({ id: block.id, toolName: block.name, arguments: block.input, status: "pending" });
+      }
+    }
+    const data = parseJSONObject(text);
+    return {
+      success: data !== null,
+      data: data ?? {},
+      toolCalls,
+      reasoning: reasoning || undefined,
+      nativeReasoning: thinking.length > 0 ? { vendor: this.vendor, blocks: thinking } : undefined,
+      rawOutput: text,
+    };
   }
 }
 
 // ---------- Google Gemini 3 Adapter ----------
-class GeminiProvider implements LLMProvider {
+export class GeminiProvider implements LLMProvider {
   readonly modelId: ModelId = "gemini-3";
   readonly displayName = "Gemini 3";
   readonly vendor = "google" as const;
 
-  async generateStructuredOutput(options: {
-    systemPrompt: string;
-    userPrompt: string;
-    tools: ToolDefinition[];
-    outputSchema: JSONSchema;
-  }): Promise<StructuredResult> {
-    // Google-specific: uses functionDeclarations with response schema
-    // The request would be formatted as:
-    // {
-    //   model: "gemini-3",
-    //   systemInstruction: { parts: [{ text: systemPrompt }] },
-    //   contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-    //   tools: [{ functionDeclarations: tools.map(t => ({ name, description, parameters })) }],
-    //   generationConfig: { responseMimeType: "application/json", responseSchema: outputSchema }
-    // }
-
-    await simulateLatency(600, 1200);
-
-    const toolCalls = this.extractToolCalls(options.userPrompt, options.tools);
-    const data = this.generateStructuredData(options.userPrompt, options.outputSchema);
+  constructor(
+    private readonly connection: ProviderConnection = defaultConnection(import.meta.env.VITE_GEMINI_API_KEY)
+  ) {}
+
+  async generateStructuredOutput(options: GenerateOptions): Promise<StructuredResult> {
+    const response = await this.send("generateContent", this.buildRequest(options), options.signal);
+    return this.parseResponse((await response.json()) as GeminiResponse);
+  }
+
+  async *streamStructuredOutput(options: GenerateOptions): AsyncGenerator<StreamEvent> {
+    const response = await this.send("streamGenerateContent?alt=sse", this.buildRequest(options), options.signal);
+    yield* withDoneEvent(normalizeGeminiStream(readServerSentEvents<GeminiStreamChunk>(response, this.vendor, options.signal)));
+  }
 
+  private send(method: string, body: GeminiRequest, signal?: AbortSignal): Promise<Response> {
+    const { transport, apiKey, baseUrl = "https://generativelanguage.googleapis.com" } = this.connection;
+    return postJSON(transport, this.vendor, `${baseUrl}/v1beta/models/gemini-3:${method}`, {
+      "x-goog-api-key": apiKey ?? "",
+    }, body, signal);
+  }
+
+  private buildRequest(options: GenerateOptions): GeminiRequest {
+    // Google-specific: uses functionDeclarations with response schema.
+    // Calls come back as functionCall parts and are answered with
+    // functionResponse parts, matched by function name.
     return {
-      success: true,
-      data,
-      toolCalls,
-      reasoning: `[Gemini 3] Used function calling with structured JSON response schema. Generated output matches declared responseSchema. Tools registered: ${options.tools.map(t => t.name).join(", ")}.`,
+      systemInstruction: { parts: [{ text: options.systemPrompt }] },
+      contents: this.buildContents(options),
+      tools: options.tools.length > 0
+        ? [{ functionDeclarations: options.tools.map((t) => ({ name: t.name, description: t.description, parameters: toVendorSchema(t.parameters) })) }]
+        : undefined,
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: toVendorSchema(options.outputSchema),
+        thinkingConfig: { includeThoughts: true },
+      },
     };
   }
 
-  private extractToolCalls(prompt: string, tools: ToolDefinition[]): ToolCall[] {
-    const calls: ToolCall[] = [];
-    const lower = prompt.toLowerCase();
-
-    if ((lower.includes("workflow") || lower.includes("urgent") || lower.includes("overdue")) && tools.find(t => t.name === "createWorkflow")) {
-      calls.push({
-        toolName: "createWorkflow",
-        arguments: {
-          workflow: {
-            name: "Auto-Escalate Overdue Tasks",
-            trigger: "task.overdue",
-            steps: [{ type: "update", entity: "Task", update: { status: "urgent" } }],
-          },
-        },
-        status: "pending",
-      });
+  private buildContents(options: GenerateOptions): GeminiContent[] {
+    const contents: GeminiContent[] = [];
+    for (const m of conversationOf(options)) {
+      if (m.role === "user") {
+        contents.push({ role: "user", parts: [{ text: m.content }] });
+      } else if (m.role === "assistant") {
+        contents.push({
+          role: "model",
+          parts: [
+            ...(m.content ? [{ text: m.content }] : []),
+            ...m.toolCalls.map((c) => ({ functionCall: { id: c.id, name: c.toolName, args: c.arguments } })),
+          ],
+        });
+      } else {
+        // Consecutive function responses share a single user turn
+        const part = { functionResponse: { name: m.toolName, response: m.result } };
+        const last = contents[contents.length - 1];
+        if (last?.role === "user" && last.parts.every((p) => "functionResponse" in p)) last.parts.push(part);
+        else contents.push({ role: "user", parts: [part] });
+      }
     }
+    return contents;
+  }
 
-    if (lower.includes("delete") || lower.includes("eval")) {
-      calls.push({ toolName: "dangerousEval", arguments: { code: "process.exit(1)" }, status: "pending" });
+  private parseResponse(body: GeminiResponse): StructuredResult {
+    const parts = body.candidates?.[0]?.content.parts;
+    if (!parts) throw new Error("google API returned no candidates");
+
+    let text = "";
+    let reasoning = "";
+    const toolCalls: ToolCall[] = [];
+    for (const part of parts) {
+      if ("functionCall" in part) {
+        const { id, name, args } = part.functionCall;
+        // Gemini may omit call ids — synthesize them so results can be paired
+        toolCalls.push({ id: id ?? `fc_${name}_${toolCalls.length}`, toolName: name, arguments: args, status: "pending" });
+      } else if ("text" in part) {
+        if (part.thought) reasoning += part.text;
+        else text += part.text;
+      }
     }
-
-    return calls;
+    const data = parseJSONObject(text);
+    return {
+      success: data !== null,
+      data: data ?? {},
+      toolCalls,
+      reasoning: reasoning || undefined,
+      rawOutput: text,
+    };
   }
+}
 
-  private generateStructuredData(prompt: string, schema: JSONSchema): Record<string, unknown> {
-    return generateMockData(prompt, schema);
-  }
+// ---------- Wire formats ----------
+export type OpenAIMessage =
+  | { role: "system" | "user"; content: string }
+  | {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: { id: string; type: "function"; function: { name: string; arguments: string } }[];
+    }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  tools?: { type: "function"; function: { name: string; description: string; parameters: JSONSchema } }[];
+  response_format: { type: "json_schema"; json_schema: { name: string; schema: JSONSchema } };
+  tool_choice: "auto";
+  stream?: boolean;
 }
 
-// ---------- Helpers ----------
-function simulateLatency(min: number, max: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, min + Math.random() * (max - min)));
+export interface OpenAIChatResponse {
+  choices: {
+    index: number;
+    message: {
+      role: "assistant";
+      content: string | null;
+      reasoning?: string;
+      tool_calls?: { id: string; type: "function"; function: { name: string; arguments: string } }[];
+    };
+    finish_reason: string;
+  }[];
 }
 
-function generateMockData(prompt: string, schema: JSONSchema): Record<string, unknown> {
-  const lower = prompt.toLowerCase();
+// Returned with extended thinking; the signature lets the API verify the block when it is sent back
+export type AnthropicThinkingBlock =
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string };
 
-  if (schema.properties?.workflow) {
-    return {
-      workflow: {
-        name: lower.includes("overdue") ? "Overdue Task Handler" : "Custom Workflow",
-        trigger: lower.includes("overdue") ? "task.overdue" : "manual",
-        steps: [
-          {
-            type: "update",
-            entity: "Task",
-            update: { status: lower.includes("urgent") ? "urgent" : "in-progress" },
-          },
-        ],
-      },
-    };
-  }
+export type AnthropicBlock =
+  | AnthropicThinkingBlock
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string; is_error?: boolean };
 
-  if (schema.properties?.tasks) {
-    return {
-      tasks: [
-        { id: "task-001", title: "Update onboarding flow", status: "open", priority: "high" },
-        { id: "task-002", title: "Fix auth redirect bug", status: "in-progress", priority: "critical" },
-        { id: "task-003", title: "Add dark mode support", status: "open", priority: "medium" },
-      ],
-    };
-  }
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicBlock[];
+}
 
-  if (schema.properties?.taskId) {
-    return { taskId: "task-001", updates: { status: "in-progress" } };
-  }
+export interface AnthropicRequest {
+  model: string;
+  max_tokens: number;
+  system: string;
+  messages: AnthropicMessage[];
+  tools?: { name: string; description: string; input_schema: JSONSchema }[];
+  tool_choice?: { type: "auto" };
+  output_format: { type: "json_schema"; schema: JSONSchema };
+  thinking: { type: "enabled"; budget_tokens: number };
+  stream?: boolean;
+}
+
+export interface AnthropicResponse {
+  content: AnthropicBlock[];
+  stop_reason: string;
+}
+
+export type GeminiPart =
+  | { text: string; thought?: boolean }
+  | { functionCall: { id?: string; name: string; args: Record<string, unknown> } }
+  | { functionResponse: { name: string; response: unknown } };
+
+export interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
 
-  return { result: "structured output" };
+export interface GeminiRequest {
+  systemInstruction: { parts: { text: string }[] };
+  contents: GeminiContent[];
+  tools?: { functionDeclarations: { name: string; description: string; parameters: JSONSchema }[] }[];
+  generationConfig: {
+    responseMimeType: "application/json";
+    responseSchema: JSONSchema;
+    thinkingConfig: { includeThoughts: boolean };
+  };
+}
+
+export interface GeminiResponse {
+  candidates?: { content: GeminiContent; finishReason?: string }[];
+}
+
+// ---------- Helpers ----------
+function conversationOf(options: GenerateOptions): ConversationMessage[] {
+  return options.messages ?? [{ role: "user", content: options.userPrompt }];
+}
+
+// Vendors don't share our schema registry — send self-contained schemas
+function toVendorSchema(schema: JSONSchema): JSONSchema {
+  return dereferenceSchema(schema);
 }
 
 // ---------- Provider Registry ----------
@@ -289,8 +443,14 @@ const providers: Record<ModelId, LLMProvider> = {
   "gpt-5.2": new OpenAIProvider(),
   "claude-opus-4.6": new ClaudeProvider(),
   "gemini-3": new GeminiProvider(),
+  scripted: new ScriptedProvider(demoScript, { latencyMs: 600 }),
 };
 
+/** Replace the provider for its model id, e.g. a ScriptedProvider with a test script. */
+export function registerProvider(provider: LLMProvider): void {
+  providers[provider.modelId] = provider;
+}
+
 export function getProvider(modelId: ModelId): LLMProvider {
   const provider = providers[modelId];
   if (!provider) {
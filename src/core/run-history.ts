@@ -0,0 +1,189 @@
+import type { AgentRunRequest, LogEntry, ModelId } from "./types";
+import type { AgentRunResult } from "./agent-runtime";
+
+// ==========================================
+// Run History — every discussion/execution
+// pair with its request and audit trail, kept
+// so past runs can be reopened as they were.
+// IndexedDB in the browser; any RunStore
+// implementation can be swapped in.
+// ==========================================
+
+export interface RunRecord {
+  id: string;
+  createdAt: string; // ISO timestamp of the run request
+  request: AgentRunRequest;
+  model: ModelId; // model that answered, after any fallback
+  discussion?: AgentRunResult;
+  execution?: AgentRunResult;
+  error?: string; // set when the run failed before producing a plan
+  logs: LogEntry[]; // full audit trail as of the latest phase
+}
+
+export interface RunStore {
+  save(record: RunRecord): Promise<void>; // inserts or replaces by id
+  get(id: string): Promise<RunRecord | undefined>;
+  list(): Promise<RunRecord[]>; // newest first
+  delete(id: string): Promise<void>;
+}
+
+let runIdCounter = 0;
+
+export function createRunId(now = new Date()): string {
+  return `run-${now.getTime().toString(36)}-${(++runIdCounter).toString(36)}`;
+}
+
+// ---------- Serialization ----------
+// Log timestamps are Dates; everything else in a record is plain JSON.
+
+export function serializeRun(record: RunRecord): string {
+  return JSON.stringify(record);
+}
+
+export function deserializeRun(json: string): RunRecord {
+  const record = JSON.parse(json) as RunRecord;
+  const revive = (logs: LogEntry[] | undefined) => {
+    for (const log of logs ?? []) log.timestamp = new Date(log.timestamp);
+  };
+  revive(record.logs);
+  revive(record.discussion?.logs);
+  revive(record.execution?.logs);
+  return record;
+}
+
+function newestFirst(a: RunRecord, b: RunRecord): number {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+// ---------- In-memory ----------
+export class InMemoryRunStore implements RunStore {
+  private records = new Map<string, string>();
+
+  async save(record: RunRecord): Promise<void> {
+    this.records.set(record.id, serializeRun(record));
+  }
+
+  async get(id: string): Promise<RunRecord | undefined> {
+    const json = this.records.get(id);
+    return json ? deserializeRun(json) : undefined;
+  }
+
+  async list(): Promise<RunRecord[]> {
+    return [...this.records.values()].map(deserializeRun).sort(newestFirst);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+}
+
+// ---------- File-backed ----------
+/** Minimal file access, e.g. node:fs/promises or a desktop shell bridge. */
+export interface RunFileSystem {
+  readFile(path: string): Promise<string | undefined>; // undefined when the file does not exist
+  writeFile(path: string, content: string): Promise<void>;
+}
+
+/** Stores all runs in one JSON Lines file, one record per line. */
+export class FileRunStore implements RunStore {
+  constructor(
+    private readonly fs: RunFileSystem,
+    private readonly path: string
+  ) {}
+
+  async save(record: RunRecord): Promise<void> {
+    const records = (await this.readAll()).filter((r) => r.id !== record.id);
+    await this.writeAll([...records, record]);
+  }
+
+  async get(id: string): Promise<RunRecord | undefined> {
+    return (await this.readAll()).find((r) => r.id === id);
+  }
+
+  async list(): Promise<RunRecord[]> {
+    return (await this.readAll()).sort(newestFirst);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.writeAll((await this.readAll()).filter((r) => r.id !== id));
+  }
+
+  private async readAll(): Promise<RunRecord[]> {
+    const content = await this.fs.readFile(this.path);
+    if (!content) return [];
+    return content
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line, i) => {
+        try {
+          return deserializeRun(line);
+        } catch {
+          throw new Error(`${this.path}:${i + 1}: invalid run record`);
+        }
+      });
+  }
+
+  private async writeAll(records: RunRecord[]): Promise<void> {
+    await this.fs.writeFile(this.path, records.map(serializeRun).join("\n") + (records.length ? "\n" : ""));
+  }
+}
+
+// ---------- IndexedDB ----------
+export class IndexedDBRunStore implements RunStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName = "onebeam-runs",
+    private readonly storeName = "runs"
+  ) {}
+
+  async save(record: RunRecord): Promise<void> {
+    // Stored as JSON so records round-trip the same way in every RunStore
+    await this.request("readwrite", (store) => store.put({ id: record.id, json: serializeRun(record) }));
+  }
+
+  async get(id: string): Promise<RunRecord | undefined> {
+    const row = await this.request<{ json: string } | undefined>("readonly", (store) => store.get(id));
+    return row ? deserializeRun(row.json) : undefined;
+  }
+
+  async list(): Promise<RunRecord[]> {
+    const rows = await this.request<{ json: string }[]>("readonly", (store) => store.getAll());
+    return rows.map((row) => deserializeRun(row.json)).sort(newestFirst);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request("readwrite", (store) => store.delete(id));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const open = indexedDB.open(this.dbName, 1);
+      open.onupgradeneeded = () => open.result.createObjectStore(this.storeName, { keyPath: "id" });
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+    return this.db;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// ---------- Default Run Store ----------
+let defaultRunStore: RunStore =
+  typeof indexedDB !== "undefined" ? new IndexedDBRunStore() : new InMemoryRunStore();
+
+export function getDefaultRunStore(): RunStore {
+  return defaultRunStore;
+}
+
+export function setDefaultRunStore(store: RunStore): void {
+  defaultRunStore = store;
+}
@@ -0,0 +1,225 @@
+import type { WorkflowTrigger } from "./types";
+import { registerFormat } from "./schema-validator";
+
+// ==========================================
+// Schedule — cron expressions, interval
+// triggers and the clock the workflow engine
+// reads time and sets timers through. Inject a
+// ManualClock to fast-forward time in tests.
+// ==========================================
+
+// ---------- Cron ----------
+
+/** A parsed five-field cron expression, evaluated in UTC. */
+export interface CronSchedule {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = Sunday
+  // Standard cron: when both day fields are restricted, either may match
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 }, // 7 is Sunday too
+] as const;
+
+/** Fields take `*`, values, ranges (`1-5`), steps on either (`0-30/10`) and comma lists of those. */
+export function parseCron(source: string): CronSchedule {
+  const fields = source.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`cron needs 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((text, i) => parseCronField(text, CRON_FIELDS[i]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !fields[2].startsWith("*"),
+    daysOfWeekRestricted: !fields[4].startsWith("*"),
+  };
+}
+
+function parseCronField(text: string, field: (typeof CRON_FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  const number = (part: string): number => {
+    if (!/^\d+$/.test(part)) throw new Error(`cron ${field.name}: "${part}" is not a number`);
+    const n = Number(part);
+    if (n < field.min || n > field.max) throw new Error(`cron ${field.name}: ${n} is outside ${field.min}-${field.max}`);
+    return n;
+  };
+
+  for (const item of text.split(",")) {
+    const [range, stepText, extra] = item.split("/");
+    if (extra !== undefined) throw new Error(`cron ${field.name}: "${item}" has more than one step`);
+    const step = stepText === undefined ? 1 : number(stepText);
+    if (step === 0) throw new Error(`cron ${field.name}: step must be at least 1`);
+
+    let from: number, to: number;
+    if (range === "*") [from, to] = [field.min, field.max];
+    else if (range.includes("-")) {
+      const [a, b] = range.split("-");
+      [from, to] = [number(a), number(b)];
+      if (from > to) throw new Error(`cron ${field.name}: range ${range} runs backwards`);
+    } else {
+      from = number(range);
+      to = stepText === undefined ? from : field.max; // "5/15" means from 5, every 15
+    }
+    for (let n = from; n <= to; n += step) values.add(n);
+  }
+  return values;
+}
+
+function cronDayMatches(cron: CronSchedule, date: Date): boolean {
+  const dom = cron.daysOfMonth.has(date.getUTCDate());
+  const dow = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) return dom || dow;
+  if (cron.daysOfMonthRestricted) return dom;
+  if (cron.daysOfWeekRestricted) return dow;
+  return true;
+}
+
+const CRON_SEARCH_LIMIT_MS = 5 * 366 * 24 * 3_600_000;
+
+/** The first minute strictly after `after` the schedule matches; null if none within five years (e.g. Feb 30). */
+export function nextCronTime(cron: CronSchedule, after: Date): Date | null {
+  const t = new Date(after.getTime());
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+  const limit = after.getTime() + CRON_SEARCH_LIMIT_MS;
+
+  // Skip whole months, days and hours that cannot match before stepping minutes
+  while (t.getTime() <= limit) {
+    if (!cron.months.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0, 0, 0);
+    } else if (!cronDayMatches(cron, t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return t;
+    }
+  }
+  return null;
+}
+
+registerFormat("cron", (value) => {
+  try {
+    return nextCronTime(parseCron(value), new Date(0)) ? null : "never matches a date";
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+});
+
+// ---------- Triggers ----------
+
+/** When a timed trigger next fires after `after`; null for event and manual triggers. */
+export function nextTriggerTime(trigger: WorkflowTrigger, after: Date): Date | null {
+  switch (trigger.type) {
+    case "cron":
+      return nextCronTime(parseCron(trigger.schedule), after);
+    case "interval":
+      return new Date(after.getTime() + trigger.everyMinutes * 60_000);
+    default:
+      return null;
+  }
+}
+
+/** Minutes between the next two times `trigger` fires after `after`; undefined unless it fires twice. */
+export function minutesBetweenRuns(trigger: WorkflowTrigger, after: Date): number | undefined {
+  const first = nextTriggerTime(trigger, after);
+  const second = first && nextTriggerTime(trigger, first);
+  return first && second ? (second.getTime() - first.getTime()) / 60_000 : undefined;
+}
+
+// ---------- Clocks ----------
+
+export type TimerHandle = unknown;
+
+export interface Clock {
+  now(): Date;
+  setTimer(callback: () => void | Promise<void>, delayMs: number): TimerHandle;
+  clearTimer(handle: TimerHandle): void;
+}
+
+// setTimeout overflows past ~24.8 days, so longer timers re-arm until due
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimer(callback, delayMs) {
+    const handle: { timeout?: ReturnType<typeof setTimeout> } = {};
+    const due = Date.now() + delayMs;
+    const arm = () => {
+      const remaining = due - Date.now();
+      handle.timeout =
+        remaining > MAX_TIMEOUT_MS ? setTimeout(arm, MAX_TIMEOUT_MS) : setTimeout(() => void callback(), Math.max(0, remaining));
+    };
+    arm();
+    return handle;
+  },
+  clearTimer(handle) {
+    clearTimeout((handle as { timeout?: ReturnType<typeof setTimeout> }).timeout);
+  },
+};
+
+/** A clock that only moves when told to. */
+export class ManualClock implements Clock {
+  private current: number;
+  private timers: { id: number; due: number; callback: () => void | Promise<void> }[] = [];
+  private timerCounter = 0;
+
+  constructor(start: Date | string) {
+    this.current = new Date(start).getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setTimer(callback: () => void | Promise<void>, delayMs: number): TimerHandle {
+    const id = ++this.timerCounter;
+    this.timers.push({ id, due: this.current + Math.max(0, delayMs), callback });
+    return id;
+  }
+
+  clearTimer(handle: TimerHandle): void {
+    this.timers = this.timers.filter((t) => t.id !== handle);
+  }
+
+  pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Move time forward, running each timer that falls due at its own due time,
+   * earliest first. Timers set by those callbacks run too if they fall in range;
+   * callbacks that return a promise are awaited before time moves on.
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+    for (;;) {
+      const next = this.timers.filter((t) => t.due <= target).sort((a, b) => a.due - b.due || a.id - b.id)[0];
+      if (!next) break;
+      this.timers = this.timers.filter((t) => t !== next);
+      this.current = next.due;
+      await next.callback();
+    }
+    this.current = target;
+  }
+}
@@ -0,0 +1,111 @@
+import type { JSONSchema } from "./types";
+
+// ==========================================
+// Schema Registry — named schemas shared by
+// tool parameters and output schemas, so one
+// definition drives both via $ref.
+// ==========================================
+
+export class SchemaRegistry {
+  private schemas = new Map<string, JSONSchema>();
+
+  /** Register (or replace) a schema under an id usable as a $ref. */
+  register(id: string, schema: JSONSchema): void {
+    if (id === "" || id.includes("#")) throw new Error(`Invalid schema id "${id}": ids must be non-empty and may not contain "#"`);
+    this.schemas.set(id, schema);
+  }
+
+  get(id: string): JSONSchema | undefined {
+    return this.schemas.get(id);
+  }
+
+  ids(): string[] {
+    return [...this.schemas.keys()];
+  }
+
+  /**
+   * Resolve a $ref relative to the schema document it appears in.
+   * "#/..." is a JSON pointer into `root`; anything else names a
+   * registered schema, optionally followed by a "#/..." pointer into it.
+   * Returns the target and the document further refs resolve against.
+   */
+  resolve(ref: string, root: JSONSchema): { schema: JSONSchema; root: JSONSchema } | null {
+    const hashIndex = ref.indexOf("#");
+    const id = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+    const pointer = hashIndex === -1 ? "" : ref.slice(hashIndex + 1);
+
+    const document = id === "" ? root : this.schemas.get(id);
+    if (!document) return null;
+
+    const schema = resolvePointer(document, pointer);
+    return schema ? { schema, root: document } : null;
+  }
+}
+
+function resolvePointer(document: JSONSchema, pointer: string): JSONSchema | null {
+  if (pointer === "") return document;
+  if (!pointer.startsWith("/")) return null;
+
+  let current: unknown = document;
+  for (const raw of pointer.slice(1).split("/")) {
+    const token = decodeURIComponent(raw).replace(/~1/g, "/").replace(/~0/g, "~");
+    if (typeof current !== "object" || current === null || !(token in current)) return null;
+    current = (current as Record<string, unknown>)[token];
+  }
+  return typeof current === "object" && current !== null ? (current as JSONSchema) : null;
+}
+
+/**
+ * Inline every $ref so the schema is self-contained — for consumers
+ * that cannot follow references. Throws on recursive schemas, which
+ * have no finite inlined form, naming the reference chain.
+ */
+export function dereferenceSchema(schema: JSONSchema, registry: SchemaRegistry = schemaRegistry): JSONSchema {
+  // The chain holds the schemas currently being inlined; meeting one
+  // again means the schema is recursive
+  function inline(s: JSONSchema, root: JSONSchema, chain: RefLink[]): JSONSchema {
+    const { $ref, $defs, ...rest } = s;
+    const result: JSONSchema = {};
+
+    for (const [key, value] of Object.entries(rest) as [keyof JSONSchema, unknown][]) {
+      if (key === "properties") {
+        result.properties = Object.fromEntries(
+          Object.entries(value as Record<string, JSONSchema>).map(([name, sub]) => [name, inline(sub, root, chain)])
+        );
+      } else if (key === "items" || key === "not" || (key === "additionalProperties" && typeof value === "object")) {
+        result[key] = inline(value as JSONSchema, root, chain);
+      } else if (key === "allOf" || key === "anyOf" || key === "oneOf") {
+        result[key] = (value as JSONSchema[]).map((sub) => inline(sub, root, chain));
+      } else {
+        (result as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    if ($ref === undefined) return result;
+
+    const target = registry.resolve($ref, root);
+    if (!target) throw new Error(`Unresolvable $ref "${$ref}"`);
+    const link = { ref: $ref, schema: target.schema };
+    if (chain.some((c) => c.schema === target.schema)) {
+      throw new Error(`Circular $ref: ${[...chain, link].map((c) => c.ref).join(" → ")}`);
+    }
+    const referenced = inline(target.schema, target.root, [...chain, link]);
+
+    // A $ref with sibling keywords applies both, like allOf
+    const { description, ...constraints } = result;
+    if (Object.keys(constraints).length === 0) {
+      return description === undefined ? referenced : { ...referenced, description };
+    }
+    return { allOf: [referenced, result] };
+  }
+
+  return inline(schema, schema, []);
+}
+
+interface RefLink {
+  ref: string;
+  schema: JSONSchema;
+}
+
+// Shared default registry — populated by the tool layer
+export const schemaRegistry = new SchemaRegistry();
@@ -1,74 +1,300 @@
-  import type { JSONSchema, ValidationResult } from "./types";
+  import type { JSONSchema, JSONSchemaType, ValidationResult } from "./types";
+import { schemaRegistry, type SchemaRegistry } from "./schema-registry";
 
 /**
- * Validates data against a JSON schema.
+ * Validates data against a JSON schema (draft 2020-12).
  * Production-grade validation ensuring no free-form text drives execution.
+ * $refs resolve against the schema's own $defs and the shared registry.
  */
 export function validateAgainstSchema(
   data: unknown,
-  schema: JSONSchema
+  schema: JSONSchema,
+  registry: SchemaRegistry = schemaRegistry
 ): ValidationResult {
   const errors: string[] = [];
+  validate(data, schema, "$", errors, { root: schema, registry, active: new Map() });
+  return { valid: errors.length === 0, errors };
+}
 
-  function validate(value: unknown, s: JSONSchema, path: string): void {
-    if (s.type === "object") {
-      if (typeof value !== "object" || value === null || Array.isArray(value)) {
-        errors.push(`${path}: expected object, got ${typeof value}`);
-        return;
-      }
-      const obj = value as Record<string, unknown>;
-
-      // Check required fields
-      if (s.required) {
-        for (const key of s.required) {
-          if (!(key in obj)) {
-            errors.push(`${path}.${key}: required field missing`);
-          }
-        }
-      }
+interface Scope {
+  root: JSONSchema; // document that "#/..." refs point into
+  registry: SchemaRegistry;
+  active: Map<JSONSchema, Set<string>>; // ref targets being applied, by data path
+}
 
-      // Validate properties
-      if (s.properties) {
-        for (const [key, propSchema] of Object.entries(s.properties)) {
-          if (key in obj) {
-            validate(obj[key], propSchema, `${path}.${key}`);
-          }
-        }
-      }
+function validate(value: unknown, s: JSONSchema, path: string, errors: string[], scope: Scope): void {
+  if (s.$ref !== undefined) {
+    validateRef(value, s.$ref, path, errors, scope);
+  }
 
-      // Disallow additional properties if specified
-      if (s.additionalProperties === false && s.properties) {
-        for (const key of Object.keys(obj)) {
-          if (!(key in s.properties)) {
-            errors.push(`${path}.${key}: unexpected property`);
-          }
-        }
-      }
-    } else if (s.type === "array") {
-      if (!Array.isArray(value)) {
-        errors.push(`${path}: expected array, got ${typeof value}`);
-        return;
-      }
-      if (s.items) {
-        value.forEach((item, i) => validate(item, s.items!, `${path}[${i}]`));
-      }
-    } else if (s.type === "string") {
-      if (typeof value !== "string") {
-        errors.push(`${path}: expected string, got ${typeof value}`);
-      } else if (s.enum && !s.enum.includes(value)) {
-        errors.push(`${path}: must be one of [${s.enum.join(", ")}]`);
+  // Type check first — other keywords only make sense on the right type
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type : [s.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${path}: expected ${types.join(" | ")}, got ${describeType(value)}`);
+      return;
+    }
+  }
+
+  if (s.const !== undefined && !deepEqual(value, s.const)) {
+    errors.push(`${path}: must equal ${formatValue(s.const)}`);
+  }
+  if (s.enum && !s.enum.some((option) => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of [${s.enum.map(formatValue).join(", ")}]`);
+  }
+
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    validateObject(value as Record<string, unknown>, s, path, errors, scope);
+  } else if (Array.isArray(value)) {
+    validateArray(value, s, path, errors, scope);
+  } else if (typeof value === "string") {
+    validateString(value, s, path, errors);
+  } else if (typeof value === "number") {
+    validateNumber(value, s, path, errors);
+  }
+
+  validateComposition(value, s, path, errors, scope);
+}
+
+function validateRef(value: unknown, ref: string, path: string, errors: string[], scope: Scope): void {
+  const target = scope.registry.resolve(ref, scope.root);
+  if (!target) {
+    errors.push(`${path}: unresolvable $ref "${ref}"`);
+    return;
+  }
+
+  // Re-entering the same schema at the same data path can never make
+  // progress — the schema recurses without consuming any data
+  const paths = scope.active.get(target.schema) ?? new Set<string>();
+  if (paths.has(path)) {
+    errors.push(`${path}: circular $ref "${ref}"`);
+    return;
+  }
+  paths.add(path);
+  scope.active.set(target.schema, paths);
+  try {
+    validate(value, target.schema, path, errors, { ...scope, root: target.root });
+  } finally {
+    paths.delete(path);
+  }
+}
+
+function validateObject(
+  obj: Record<string, unknown>,
+  s: JSONSchema,
+  path: string,
+  errors: string[],
+  scope: Scope
+): void {
+  // Check required fields
+  if (s.required) {
+    for (const key of s.required) {
+      if (!(key in obj)) {
+        errors.push(`${path}.${key}: required field missing`);
       }
-    } else if (s.type === "number") {
-      if (typeof value !== "number") {
-        errors.push(`${path}: expected number, got ${typeof value}`);
+    }
+  }
+
+  // Validate properties
+  if (s.properties) {
+    for (const [key, propSchema] of Object.entries(s.properties)) {
+      if (key in obj) {
+        validate(obj[key], propSchema, `${path}.${key}`, errors, scope);
       }
-    } else if (s.type === "boolean") {
-      if (typeof value !== "boolean") {
-        errors.push(`${path}: expected boolean, got ${typeof value}`);
+    }
+  }
+
+  // Disallow or constrain additional properties
+  if (s.additionalProperties !== undefined && s.additionalProperties !== true) {
+    for (const key of Object.keys(obj)) {
+      if (s.properties && key in s.properties) continue;
+      if (s.additionalProperties === false) {
+        errors.push(`${path}.${key}: unexpected property`);
+      } else {
+        validate(obj[key], s.additionalProperties, `${path}.${key}`, errors, scope);
       }
     }
   }
+}
 
-  validate(data, schema, "$");
-  return { valid: errors.length === 0, errors };
+function validateArray(arr: unknown[], s: JSONSchema, path: string, errors: string[], scope: Scope): void {
+  if (s.minItems !== undefined && arr.length < s.minItems) {
+    errors.push(`${path}: must contain at least ${s.minItems} items, got ${arr.length}`);
+  }
+  if (s.maxItems !== undefined && arr.length > s.maxItems) {
+    errors.push(`${path}: must contain at most ${s.maxItems} items, got ${arr.length}`);
+  }
+  if (s.uniqueItems) {
+    for (let j = 1; j < arr.length; j++) {
+      const i = arr.findIndex((other, k) => k < j && deepEqual(other, arr[j]));
+      if (i !== -1) errors.push(`${path}[${j}]: duplicate of ${path}[${i}]`);
+    }
+  }
+  if (s.items) {
+    arr.forEach((item, i) => validate(item, s.items!, `${path}[${i}]`, errors, scope));
+  }
 }
+
+function validateString(str: string, s: JSONSchema, path: string, errors: string[]): void {
+  // Length is measured in code points, not UTF-16 units
+  const length = [...str].length;
+  if (s.minLength !== undefined && length < s.minLength) {
+    errors.push(`${path}: must be at least ${s.minLength} characters, got ${length}`);
+  }
+  if (s.maxLength !== undefined && length > s.maxLength) {
+    errors.push(`${path}: must be at most ${s.maxLength} characters, got ${length}`);
+  }
+  if (s.pattern !== undefined) {
+    const regex = compilePattern(s.pattern);
+    if (!regex) {
+      errors.push(`${path}: schema pattern /${s.pattern}/ is not a valid regular expression`);
+    } else if (!regex.test(str)) {
+      errors.push(`${path}: must match pattern /${s.pattern}/`);
+    }
+  }
+  if (s.format !== undefined) {
+    const check = FORMAT_CHECKS[s.format];
+    const custom = customFormats.get(s.format)?.(str);
+    // Unknown formats are annotations only, per the spec
+    if (check && !check(str)) {
+      errors.push(`${path}: must be a valid ${s.format}`);
+    } else if (custom) {
+      errors.push(`${path}: must be a valid ${s.format}: ${custom}`);
+    }
+  }
+}
+
+function validateNumber(num: number, s: JSONSchema, path: string, errors: string[]): void {
+  if (s.minimum !== undefined && num < s.minimum) {
+    errors.push(`${path}: must be >= ${s.minimum}, got ${num}`);
+  }
+  if (s.maximum !== undefined && num > s.maximum) {
+    errors.push(`${path}: must be <= ${s.maximum}, got ${num}`);
+  }
+  if (s.exclusiveMinimum !== undefined && num <= s.exclusiveMinimum) {
+    errors.push(`${path}: must be > ${s.exclusiveMinimum}, got ${num}`);
+  }
+  if (s.exclusiveMaximum !== undefined && num >= s.exclusiveMaximum) {
+    errors.push(`${path}: must be < ${s.exclusiveMaximum}, got ${num}`);
+  }
+}
+
+function validateComposition(value: unknown, s: JSONSchema, path: string, errors: string[], scope: Scope): void {
+  if (s.allOf) {
+    for (const sub of s.allOf) validate(value, sub, path, errors, scope);
+  }
+
+  if (s.anyOf) {
+    const branchErrors = s.anyOf.map((sub) => collectErrors(value, sub, path, scope));
+    if (!branchErrors.some((e) => e.length === 0)) {
+      errors.push(`${path}: must match at least one schema in anyOf (${summarizeBranches(branchErrors)})`);
+    }
+  }
+
+  if (s.oneOf) {
+    const branchErrors = s.oneOf.map((sub) => collectErrors(value, sub, path, scope));
+    const matched = branchErrors.filter((e) => e.length === 0).length;
+    if (matched === 0) {
+      errors.push(`${path}: must match exactly one schema in oneOf (${summarizeBranches(branchErrors)})`);
+    } else if (matched > 1) {
+      errors.push(`${path}: must match exactly one schema in oneOf, matched ${matched}`);
+    }
+  }
+
+  if (s.not && collectErrors(value, s.not, path, scope).length === 0) {
+    errors.push(`${path}: must not match the schema in "not"`);
+  }
+}
+
+// ---------- Helpers ----------
+function collectErrors(value: unknown, s: JSONSchema, path: string, scope: Scope): string[] {
+  const errors: string[] = [];
+  validate(value, s, path, errors, scope);
+  return errors;
+}
+
+function summarizeBranches(branchErrors: string[][]): string {
+  return branchErrors.map((e, i) => `#${i}: ${e[0]}`).join("; ");
+}
+
+function matchesType(value: unknown, type: JSONSchemaType): boolean {
+  switch (type) {
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number";
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    default:
+      return false;
+  }
+}
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, "u");
+  } catch {
+    return null;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => key in b && deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+  );
+}
+
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URI_SCHEME = /^[a-zA-Z][a-zA-Z0-9+.-]*:/;
+
+/** Checks a custom string format; returns why the value is invalid, or null when it is valid. */
+export type FormatCheck = (value: string) => string | null;
+
+const customFormats = new Map<string, FormatCheck>();
+
+/** Register (or replace) a custom `format`, e.g. a domain-specific syntax. */
+export function registerFormat(name: string, check: FormatCheck): void {
+  customFormats.set(name, check);
+}
+
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  "date-time": (value) => DATE_TIME.test(value) && !Number.isNaN(Date.parse(value)),
+  email: (value) => EMAIL.test(value),
+  uri: (value) => {
+    if (!URI_SCHEME.test(value)) return false;
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
@@ -0,0 +1,117 @@
+import type {
+  GenerateOptions,
+  LLMProvider,
+  ModelId,
+  StreamEvent,
+  StructuredResult,
+  ToolCall,
+} from "./types";
+import { OUTPUT_SCHEMAS } from "./tools";
+
+// ==========================================
+// Scripted Provider — a deterministic stand-in
+// for a model. It plays back a script of
+// (prompt matcher → turns) with fixed latency,
+// so runtime behavior can be tested and demoed
+// without a vendor API.
+// ==========================================
+
+/** One scripted model turn. */
+export interface ScriptTurn {
+  reasoning?: string;
+  toolCalls?: { id?: string; toolName: string; arguments: Record<string, unknown> }[];
+  data?: Record<string, unknown>;
+}
+
+export interface ScriptEntry {
+  match?: string; // case-insensitive regex tested against the user prompt; omitted matches anything
+  outputSchema?: string; // only match when the agent asks for this OUTPUT_SCHEMAS entry
+  turns: ScriptTurn[]; // played in order; the last turn repeats once the script runs out
+}
+
+export interface ProviderScript {
+  entries: ScriptEntry[];
+}
+
+export interface ScriptedProviderOptions {
+  latencyMs?: number; // per response; streamed events are paced evenly across it
+}
+
+export class ScriptedProvider implements LLMProvider {
+  readonly modelId: ModelId = "scripted";
+  readonly displayName = "Scripted (offline)";
+  readonly vendor = "scripted" as const;
+
+  constructor(
+    private readonly script: ProviderScript,
+    private readonly options: ScriptedProviderOptions = {}
+  ) {}
+
+  async generateStructuredOutput(options: GenerateOptions): Promise<StructuredResult> {
+    await delay(this.options.latencyMs ?? 0);
+    return this.play(options);
+  }
+
+  async *streamStructuredOutput(options: GenerateOptions): AsyncGenerator<StreamEvent> {
+    const result = this.play(options);
+    const events = toStreamEvents(result);
+    const pace = (this.options.latencyMs ?? 0) / events.length;
+    for (const event of events) {
+      await delay(pace);
+      yield event;
+    }
+  }
+
+  private play(options: GenerateOptions): StructuredResult {
+    const entry = this.script.entries.find((e) => matches(e, options));
+    if (!entry) {
+      throw new Error(`No scripted response matches prompt: "${options.userPrompt}"`);
+    }
+
+    // Each assistant message in the history is one turn already played
+    const turnIndex = (options.messages ?? []).filter((m) => m.role === "assistant").length;
+    const turn = entry.turns[Math.min(turnIndex, entry.turns.length - 1)] ?? {};
+
+    return {
+      success: true,
+      data: structuredClone(turn.data ?? {}),
+      reasoning: turn.reasoning,
+      toolCalls: (turn.toolCalls ?? []).map((c, i): ToolCall => ({
+        id: c.id ?? `scripted_${turnIndex + 1}_${i}`,
+        toolName: c.toolName,
+        arguments: structuredClone(c.arguments),
+        status: "pending",
+      })),
+    };
+  }
+}
+
+function matches(entry: ScriptEntry, options: GenerateOptions): boolean {
+  if (entry.outputSchema && OUTPUT_SCHEMAS[entry.outputSchema] !== options.outputSchema) return false;
+  return entry.match === undefined || new RegExp(entry.match, "i").test(options.userPrompt);
+}
+
+function toStreamEvents(result: StructuredResult): StreamEvent[] {
+  const events: StreamEvent[] = [];
+  for (const text of splitText(result.reasoning ?? "")) events.push({ type: "reasoning_delta", text });
+  for (const [index, call] of result.toolCalls.entries()) {
+    events.push({ type: "tool_call_start", index, id: call.id!, toolName: call.toolName });
+    for (const argumentsDelta of splitText(JSON.stringify(call.arguments))) {
+      events.push({ type: "tool_call_delta", index, argumentsDelta });
+    }
+    events.push({ type: "tool_call_end", index });
+  }
+  for (const jsonDelta of splitText(JSON.stringify(result.data))) events.push({ type: "output_delta", jsonDelta });
+  events.push({ type: "done", result });
+  return events;
+}
+
+function splitText(text: string, size = 24): string[] {
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += size) pieces.push(text.slice(i, i + size));
+  return pieces;
+}
+
+function delay(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
@@ -0,0 +1,202 @@
+import type {
+  DataStore,
+  StoreEvent,
+  StoreEventHold,
+  Task,
+  TaskChanges,
+  TaskFilter,
+  TaskInput,
+  Workflow,
+  WorkflowInput,
+} from "./types";
+
+// ==========================================
+// Data Store — the state that tool executors
+// read from and write to. In-memory by default;
+// any DataStore implementation can be swapped in.
+// Subscribers hear about every change.
+// ==========================================
+
+export const SEED_TASKS: Task[] = [
+  { id: "task-001", title: "Update onboarding flow", status: "open", priority: "high", assignee: "alice", project: "onboarding", dueDate: "2026-01-15T17:00:00.000Z" },
+  { id: "task-002", title: "Fix auth redirect bug", status: "in-progress", priority: "critical", assignee: "bob", project: "platform", dueDate: "2026-01-10T17:00:00.000Z" },
+  { id: "task-003", title: "Add dark mode support", status: "open", priority: "medium", assignee: "alice", project: "design" },
+];
+
+export class InMemoryDataStore implements DataStore {
+  private tasks = new Map<string, Task>();
+  private workflows = new Map<string, Workflow[]>(); // id → versions, oldest first
+  private workflowIdCounter = 0;
+  private listeners = new Set<(event: StoreEvent) => void>();
+  private capturing: StoreEvent[] | null = null; // the hold whose store call is running synchronously
+  private closedHolds = new WeakSet<StoreEvent[]>();
+
+  /** Seed workflows may list several versions of one id, oldest first. */
+  constructor(seed: { tasks?: Task[]; workflows?: Workflow[] } = {}) {
+    for (const task of seed.tasks ?? []) this.tasks.set(task.id, { ...task });
+    for (const workflow of seed.workflows ?? []) {
+      this.workflows.set(workflow.id, [...(this.workflows.get(workflow.id) ?? []), structuredClone(workflow)]);
+    }
+    // Continue after the highest seeded id, so ids freed by deletes are never reused
+    this.workflowIdCounter = Math.max(0, ...[...this.workflows.keys()].map((id) => Number(/^wf-(\d+)$/.exec(id)?.[1] ?? 0)));
+  }
+
+  async getTask(id: string): Promise<Task | undefined> {
+    const task = this.tasks.get(id);
+    return task ? { ...task } : undefined;
+  }
+
+  async listTasks(filter: TaskFilter = {}): Promise<Task[]> {
+    return [...this.tasks.values()]
+      .filter((task) =>
+        (Object.keys(filter) as (keyof TaskFilter)[]).every(
+          (key) => filter[key] === undefined || task[key] === filter[key]
+        )
+      )
+      .map((task) => ({ ...task }));
+  }
+
+  async createTask(input: TaskInput): Promise<Task> {
+    let n = this.tasks.size;
+    let id: string;
+    do id = `task-${String(++n).padStart(3, "0")}`; while (this.tasks.has(id));
+    const task = { ...input, id };
+    this.tasks.set(id, task);
+    this.emit({ type: "task.created", task: { ...task } });
+    return { ...task };
+  }
+
+  async updateTask(id: string, changes: TaskChanges): Promise<Task> {
+    const task = this.tasks.get(id);
+    if (!task) throw new Error(`Task not found: ${id}`);
+    const updated = { ...task, ...changes, id };
+    for (const [field, value] of Object.entries(changes)) {
+      if (value === undefined) delete updated[field as keyof TaskChanges];
+    }
+    this.tasks.set(id, updated);
+    this.emit({ type: "task.updated", task: { ...updated }, before: { ...task } });
+    return { ...updated };
+  }
+
+  async createWorkflow(input: WorkflowInput): Promise<Workflow> {
+    const existing = [...this.workflows.values()].find((versions) => versions.at(-1)!.name === input.name);
+    if (existing) return this.saveVersion(existing, { ...structuredClone(input) });
+
+    let id: string;
+    do id = `wf-${String(++this.workflowIdCounter).padStart(3, "0")}`; while (this.workflows.has(id));
+    const workflow: Workflow = {
+      ...structuredClone(input),
+      id,
+      version: 1,
+      createdAt: new Date().toISOString(),
+    };
+    this.workflows.set(workflow.id, [workflow]);
+    this.emit({ type: "workflow.created", workflow: structuredClone(workflow) });
+    return structuredClone(workflow);
+  }
+
+  async listWorkflows(): Promise<Workflow[]> {
+    return [...this.workflows.values()].map((versions) => structuredClone(versions.at(-1)!));
+  }
+
+  async listWorkflowVersions(id: string): Promise<Workflow[]> {
+    return structuredClone(this.workflowVersions(id));
+  }
+
+  async rollbackWorkflow(id: string, version: number): Promise<Workflow> {
+    const versions = this.workflowVersions(id);
+    const target = versions.find((w) => w.version === version);
+    if (!target) throw new Error(`Workflow ${id} has no version ${version}`);
+    if (target === versions.at(-1)) throw new Error(`Workflow ${id} is already at version ${version}`);
+    return this.saveVersion(versions, { name: target.name, trigger: target.trigger, steps: target.steps, restoredFrom: version });
+  }
+
+  async deleteWorkflow(id: string): Promise<void> {
+    const current = this.workflowVersions(id).at(-1)!;
+    this.workflows.delete(id);
+    this.emit({ type: "workflow.deleted", workflow: current });
+  }
+
+  private workflowVersions(id: string): Workflow[] {
+    const versions = this.workflows.get(id);
+    if (!versions) throw new Error(`Workflow not found: ${id}`);
+    return versions;
+  }
+
+  private saveVersion(versions: Workflow[], definition: WorkflowInput & Pick<Workflow, "restoredFrom">): Workflow {
+    const before = versions.at(-1)!;
+    const workflow: Workflow = {
+      ...structuredClone(definition),
+      id: before.id,
+      version: before.version + 1,
+      createdAt: new Date().toISOString(),
+    };
+    versions.push(workflow);
+    this.emit({ type: "workflow.updated", workflow: structuredClone(workflow), before: structuredClone(before) });
+    return structuredClone(workflow);
+  }
+
+  subscribe(listener: (event: StoreEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Only writes made through the hold's `store` are held; other writers'
+   * events are published as usual. A hold opened through another hold's
+   * `store` releases into it.
+   */
+  holdEvents(): StoreEventHold {
+    const buffer: StoreEvent[] = [];
+    const enclosing = this.capturing;
+    const close = () => {
+      if (this.closedHolds.has(buffer)) throw new Error("Store event hold already closed");
+      if (enclosing && this.closedHolds.has(enclosing)) throw new Error("Store event holds must close innermost first");
+      this.closedHolds.add(buffer);
+    };
+    const store = new Proxy(this, {
+      get: (target, prop) => {
+        const value = Reflect.get(target, prop, target);
+        if (typeof value !== "function") return value;
+        return (...args: unknown[]) => {
+          const previous = this.capturing;
+          this.capturing = this.closedHolds.has(buffer) ? previous : buffer;
+          try {
+            return value.apply(target, args);
+          } finally {
+            this.capturing = previous;
+          }
+        };
+      },
+    });
+    return {
+      store,
+      release: () => {
+        close();
+        if (enclosing) enclosing.push(...buffer);
+        else for (const event of buffer) this.emit(event);
+      },
+      discard: close,
+    };
+  }
+
+  // Events are emitted synchronously, so a held call's events reach its buffer
+  private emit(event: StoreEvent): void {
+    if (this.capturing) {
+      this.capturing.push(event);
+      return;
+    }
+    for (const listener of this.listeners) listener(event);
+  }
+}
+
+// ---------- Default Store ----------
+let defaultStore: DataStore = new InMemoryDataStore({ tasks: SEED_TASKS });
+
+export function getDefaultStore(): DataStore {
+  return defaultStore;
+}
+
+export function setDefaultStore(store: DataStore): void {
+  defaultStore = store;
+}
@@ -0,0 +1,271 @@
+import type { NativeReasoning, StreamEvent, StructuredResult, ToolCall } from "./types";
+import type { AnthropicThinkingBlock } from "./providers";
+
+// ==========================================
+// Streaming — vendor stream chunks are
+// normalized into StreamEvents, and a
+// StreamAccumulator folds events back into
+// a StructuredResult.
+// ==========================================
+
+// ---------- Vendor chunk shapes ----------
+
+// OpenAI chat completions: one delta per chunk, tool calls keyed by index
+export interface OpenAIStreamChunk {
+  choices: {
+    index: number;
+    delta: {
+      reasoning?: string;
+      content?: string;
+      tool_calls?: {
+        index: number;
+        id?: string;
+        type?: "function";
+        function: { name?: string; arguments?: string };
+      }[];
+    };
+    finish_reason: "stop" | "tool_calls" | null;
+  }[];
+}
+
+// Anthropic messages: typed content blocks with start / delta / stop events
+export type AnthropicStreamEvent =
+  | { type: "message_start" }
+  | {
+      type: "content_block_start";
+      index: number;
+      content_block:
+        | { type: "thinking"; thinking: string; signature?: string }
+        | { type: "redacted_thinking"; data: string }
+        | { type: "text"; text: string }
+        | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> };
+    }
+  | {
+      type: "content_block_delta";
+      index: number;
+      delta:
+        | { type: "thinking_delta"; thinking: string }
+        | { type: "signature_delta"; signature: string }
+        | { type: "text_delta"; text: string }
+        | { type: "input_json_delta"; partial_json: string };
+    }
+  | { type: "content_block_stop"; index: number }
+  | { type: "message_delta"; delta: { stop_reason: string } }
+  | { type: "message_stop" };
+
+// Gemini streamGenerateContent: partial responses; function calls arrive whole
+export interface GeminiStreamChunk {
+  candidates: {
+    content: {
+      role: "model";
+      parts: (
+        | { text: string; thought?: boolean }
+        | { functionCall: { id?: string; name: string; args: Record<string, unknown> } }
+      )[];
+    };
+    finishReason?: string;
+  }[];
+}
+
+// ---------- Normalizers ----------
+
+export async function* normalizeOpenAIStream(
+  chunks: AsyncIterable<OpenAIStreamChunk>
+): AsyncGenerator<StreamEvent> {
+  const open = new Set<number>();
+  for await (const chunk of chunks) {
+    for (const choice of chunk.choices) {
+      const { delta } = choice;
+      if (delta.reasoning) yield { type: "reasoning_delta", text: delta.reasoning };
+      if (delta.content) yield { type: "output_delta", jsonDelta: delta.content };
+      for (const call of delta.tool_calls ?? []) {
+        // The first fragment of a call carries its id and name
+        if (call.id && !open.has(call.index)) {
+          open.add(call.index);
+          yield { type: "tool_call_start", index: call.index, id: call.id, toolName: call.function.name ?? "" };
+        }
+        if (call.function.arguments) {
+          yield { type: "tool_call_delta", index: call.index, argumentsDelta: call.function.arguments };
+        }
+      }
+      // OpenAI has no per-call end marker — calls close with the choice
+      if (choice.finish_reason) {
+        for (const index of open) yield { type: "tool_call_end", index };
+        open.clear();
+      }
+    }
+  }
+}
+
+export async function* normalizeAnthropicStream(
+  events: AsyncIterable<AnthropicStreamEvent>
+): AsyncGenerator<StreamEvent> {
+  // Content block index → tool call index
+  const toolIndexes = new Map<number, number>();
+  // Thinking blocks are rebuilt, signature included, so they can be sent back whole
+  const thinking = new Map<number, AnthropicThinkingBlock>();
+  for await (const event of events) {
+    if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+      const index = toolIndexes.size;
+      toolIndexes.set(event.index, index);
+      yield { type: "tool_call_start", index, id: event.content_block.id, toolName: event.content_block.name };
+    } else if (event.type === "content_block_start" && event.content_block.type === "thinking") {
+      thinking.set(event.index, { type: "thinking", thinking: event.content_block.thinking, signature: event.content_block.signature ?? "" });
+    } else if (event.type === "content_block_start" && event.content_block.type === "redacted_thinking") {
+      thinking.set(event.index, { ...event.content_block });
+    } else if (event.type === "content_block_delta") {
+      const { delta } = event;
+      const block = thinking.get(event.index);
+      if (delta.type === "thinking_delta") {
+        if (block?.type === "thinking") block.thinking += delta.thinking;
+        yield { type: "reasoning_delta", text: delta.thinking };
+      } else if (delta.type === "signature_delta") {
+        if (block?.type === "thinking") block.signature += delta.signature;
+      } else if (delta.type === "text_delta") yield { type: "output_delta", jsonDelta: delta.text };
+      else if (toolIndexes.has(event.index)) {
+        yield { type: "tool_call_delta", index: toolIndexes.get(event.index)!, argumentsDelta: delta.partial_json };
+      }
+    } else if (event.type === "content_block_stop" && toolIndexes.has(event.index)) {
+      yield { type: "tool_call_end", index: toolIndexes.get(event.index)! };
+    } else if (event.type === "content_block_stop" && thinking.has(event.index)) {
+      yield { type: "reasoning_block", vendor: "anthropic", block: thinking.get(event.index)! };
+    }
+  }
+}
+
+export async function* normalizeGeminiStream(
+  chunks: AsyncIterable<GeminiStreamChunk>
+): AsyncGenerator<StreamEvent> {
+  let toolIndex = 0;
+  for await (const chunk of chunks) {
+    for (const part of chunk.candidates[0]?.content.parts ?? []) {
+      if ("functionCall" in part) {
+        // Whole calls only — emit start, the full arguments, and end together
+        const index = toolIndex++;
+        const { id, name, args } = part.functionCall;
+        yield { type: "tool_call_start", index, id: id ?? `fc_${name}_${index}`, toolName: name };
+        yield { type: "tool_call_delta", index, argumentsDelta: JSON.stringify(args) };
+        yield { type: "tool_call_end", index };
+      } else if (part.thought) {
+        yield { type: "reasoning_delta", text: part.text };
+      } else {
+        yield { type: "output_delta", jsonDelta: part.text };
+      }
+    }
+  }
+}
+
+/**
+ * Append the terminal "done" event, built by accumulating everything
+ * the normalized stream produced.
+ */
+export async function* withDoneEvent(events: AsyncIterable<StreamEvent>): AsyncGenerator<StreamEvent> {
+  const accumulator = new StreamAccumulator();
+  for await (const event of events) {
+    accumulator.apply(event);
+    yield event;
+  }
+  yield { type: "done", result: accumulator.result() };
+}
+
+// ---------- Accumulator ----------
+
+export interface StreamingToolCall {
+  id: string;
+  toolName: string;
+  argumentsText: string;
+  complete: boolean;
+}
+
+export interface StreamSnapshot {
+  reasoning: string;
+  toolCalls: StreamingToolCall[];
+  outputText: string;
+  done: boolean;
+}
+
+/**
+ * Folds StreamEvents into a running snapshot (for rendering partial
+ * progress) and, once complete, a StructuredResult.
+ */
+export class StreamAccumulator {
+  private reasoning = "";
+  private nativeReasoning: NativeReasoning | undefined;
+  private outputText = "";
+  private toolCalls: StreamingToolCall[] = [];
+  private final: StructuredResult | null = null;
+
+  apply(event: StreamEvent): void {
+    switch (event.type) {
+      case "reasoning_delta":
+        this.reasoning += event.text;
+        break;
+      case "reasoning_block":
+        this.nativeReasoning ??= { vendor: event.vendor, blocks: [] };
+        this.nativeReasoning.blocks.push(event.block);
+        break;
+      case "output_delta":
+        this.outputText += event.jsonDelta;
+        break;
+      case "tool_call_start":
+        this.toolCalls[event.index] = { id: event.id, toolName: event.toolName, argumentsText: "", complete: false };
+        break;
+      case "tool_call_delta":
+        if (this.toolCalls[event.index]) this.toolCalls[event.index].argumentsText += event.argumentsDelta;
+        break;
+      case "tool_call_end":
+        if (this.toolCalls[event.index]) this.toolCalls[event.index].complete = true;
+        break;
+      case "done":
+        this.final = event.result;
+        break;
+    }
+  }
+
+  snapshot(): StreamSnapshot {
+    return {
+      reasoning: this.reasoning,
+      toolCalls: this.toolCalls.filter(Boolean).map((c) => ({ ...c })),
+      outputText: this.outputText,
+      done: this.final !== null,
+    };
+  }
+
+  result(): StructuredResult {
+    if (this.final) return this.final;
+
+    const toolCalls: ToolCall[] = this.toolCalls.filter(Boolean).map((c) => ({
+      id: c.id,
+      toolName: c.toolName,
+      arguments: parseJSONObject(c.argumentsText) ?? {},
+      status: "pending",
+    }));
+    const data = parseJSONObject(this.outputText);
+    return {
+      success: data !== null,
+      data: data ?? {},
+      toolCalls,
+      reasoning: this.reasoning || undefined,
+      nativeReasoning: this.nativeReasoning,
+      rawOutput: this.outputText,
+    };
+  }
+}
+
+/** Consume a stream to completion and return its final result. */
+export async function collectStream(events: AsyncIterable<StreamEvent>): Promise<StructuredResult> {
+  const accumulator = new StreamAccumulator();
+  for await (const event of events) accumulator.apply(event);
+  return accumulator.result();
+}
+
+/** Parse JSON text that must be an object; empty text is an empty object. */
+export function parseJSONObject(text: string): Record<string, unknown> | null {
+  if (text.trim() === "") return {};
+  try {
+    const parsed = JSON.parse(text);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
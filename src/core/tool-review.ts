@@ -0,0 +1,72 @@
+import type { ToolCall } from "./types";
+import { validateToolArguments } from "./tools";
+import { getDefaultPlanSigner, type PlanSigner } from "./plan-seal";
+
+// ==========================================
+// Tool Call Review — the user approves, rejects
+// or edits each proposed call before execution.
+// Edited arguments must still match the tool's
+// parameters schema, and are signed so the
+// plan seal accepts them at execution.
+// ==========================================
+
+export interface ReviewInput {
+  decision: "approved" | "rejected";
+  reviewer: string;
+  arguments?: Record<string, unknown>; // replacement arguments when editing
+}
+
+/** A policy marked the call require_approval: only a decision on this call alone counts. */
+export function needsIndividualApproval(call: ToolCall): boolean {
+  return call.policy?.effect === "require_approval";
+}
+
+/**
+ * Record a review decision on a copy of the call. Edits that fail the
+ * parameters schema are refused: the call is returned unchanged with errors.
+ * Edited calls are signed by `signer`, which must be the one that sealed the plan.
+ */
+export function reviewToolCall(
+  call: ToolCall,
+  input: ReviewInput,
+  now = new Date(),
+  signer: PlanSigner = getDefaultPlanSigner()
+): { call: ToolCall; errors: string[] } {
+  // Edits only matter for approvals; a rejected call never runs
+  const edited = input.decision === "approved" && input.arguments !== undefined &&
+    JSON.stringify(input.arguments) !== JSON.stringify(call.arguments);
+  if (edited) {
+    const validation = validateToolArguments(call.toolName, input.arguments!);
+    if (!validation.valid) return { call, errors: validation.errors };
+  }
+
+  const originalArguments = call.review?.originalArguments ?? (edited ? call.arguments : undefined);
+  const reviewed: ToolCall = {
+    ...call,
+    arguments: edited ? input.arguments! : call.arguments,
+    review: {
+      decision: input.decision,
+      reviewer: input.reviewer,
+      decidedAt: now.toISOString(),
+      ...(originalArguments ? { originalArguments } : {}),
+    },
+  };
+  if (originalArguments) reviewed.review!.signature = signer.signEdit(reviewed);
+  return {
+    call: reviewed,
+    errors: [],
+  };
+}
+
+/**
+ * Approve every call that has no decision yet, except calls that need
+ * individual approval. The reviews are marked bulk, which execution does not
+ * accept for calls a policy has since marked require_approval.
+ */
+export function approveUndecided(calls: ToolCall[], reviewer: string, now = new Date()): ToolCall[] {
+  return calls.map((call) => {
+    if (call.review || needsIndividualApproval(call)) return call;
+    const { call: approved } = reviewToolCall(call, { decision: "approved", reviewer }, now);
+    return { ...approved, review: { ...approved.review!, bulk: true } };
+  });
+}
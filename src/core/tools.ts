@@ -1,4 +1,99 @@
-   import type { ToolDefinition, Permission, JSONSchema } from "./types";
+   import type { ToolDefinition, Permission, JSONSchema, ValidationResult } from "./types";
+import { schemaRegistry } from "./schema-registry";
+import { validateAgainstSchema } from "./schema-validator";
+import { grantCovers, missingPermissions } from "./permissions";
+import "./expressions"; // registers the "workflow-condition" format
+import "./schedule"; // registers the "cron" format
+
+// ==========================================
+// Shared schema definitions — registered by id
+// so tool parameters and output schemas can
+// $ref a single source of truth
+// ==========================================
+
+export const SHARED_SCHEMAS: Record<string, JSONSchema> = {
+  TaskStatus: { type: "string", enum: ["open", "in-progress", "urgent", "done"] },
+  TaskPriority: { type: "string", enum: ["low", "medium", "high", "critical"] },
+  TaskUpdates: {
+    type: "object",
+    properties: {
+      status: { $ref: "TaskStatus" },
+      priority: { $ref: "TaskPriority" },
+      assignee: { type: "string" },
+      project: { type: "string" },
+      dueDate: { type: "string", format: "date-time" },
+    },
+    additionalProperties: false,
+  },
+  Task: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      title: { type: "string" },
+      status: { $ref: "TaskStatus" },
+      priority: { $ref: "TaskPriority" },
+      assignee: { type: "string" },
+      project: { type: "string" },
+      dueDate: { type: "string", format: "date-time" },
+    },
+    required: ["id", "title", "status", "priority"],
+  },
+  WorkflowStep: {
+    type: "object",
+    properties: {
+      type: { type: "string", enum: ["update", "notify", "condition"] },
+      entity: { type: "string" },
+      update: { type: "object" },
+      // e.g. task.dueDate < now() && task.priority in ["high", "critical"]
+      condition: { type: "string", format: "workflow-condition" },
+    },
+    required: ["type"],
+    // condition steps must say what to check
+    anyOf: [{ not: { properties: { type: { const: "condition" } } } }, { required: ["condition"] }],
+  },
+  WorkflowTrigger: {
+    oneOf: [
+      {
+        type: "object",
+        properties: { type: { const: "event" }, event: { type: "string", enum: ["task.created", "task.updated", "task.overdue"] } },
+        required: ["type", "event"],
+        additionalProperties: false,
+      },
+      {
+        type: "object",
+        // UTC, e.g. "0 9 * * 1-5" for 09:00 on weekdays
+        properties: { type: { const: "cron" }, schedule: { type: "string", format: "cron" } },
+        required: ["type", "schedule"],
+        additionalProperties: false,
+      },
+      {
+        type: "object",
+        properties: { type: { const: "interval" }, everyMinutes: { type: "integer", minimum: 1 } },
+        required: ["type", "everyMinutes"],
+        additionalProperties: false,
+      },
+      {
+        type: "object",
+        properties: { type: { const: "manual" } },
+        required: ["type"],
+        additionalProperties: false,
+      },
+    ],
+  },
+  Workflow: {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      trigger: { $ref: "WorkflowTrigger" },
+      steps: { type: "array", items: { $ref: "WorkflowStep" } },
+    },
+    required: ["name", "trigger", "steps"],
+  },
+};
+
+for (const [id, schema] of Object.entries(SHARED_SCHEMAS)) {
+  schemaRegistry.register(id, schema);
+}
 
 // ==========================================
 // Tool Registry — defines available tools
@@ -17,6 +112,7 @@ export const TOOL_REGISTRY: ToolDefinition[] = [
       required: ["taskId"],
     },
     requiredPermissions: ["read:tasks"],
+    readOnly: true,
   },
   {
     name: "updateTask",
@@ -25,14 +121,7 @@ export const TOOL_REGISTRY: ToolDefinition[] = [
       type: "object",
       properties: {
         taskId: { type: "string", description: "The ID of the task to update" },
-        updates: {
-          type: "object",
-          properties: {
-            status: { type: "string", enum: ["open", "in-progress", "urgent", "done"] },
-            priority: { type: "string", enum: ["low", "medium", "high", "critical"] },
-            assignee: { type: "string" },
-          },
-        },
+        updates: { $ref: "TaskUpdates" },
       },
       required: ["taskId", "updates"],
     },
@@ -40,30 +129,11 @@ export const TOOL_REGISTRY: ToolDefinition[] = [
   },
   {
     name: "createWorkflow",
-    description: "Create an automation workflow with trigger and steps.",
+    description: "Create an automation workflow with a trigger (task event, cron schedule in UTC, interval or manual) and steps.",
     parameters: {
       type: "object",
       properties: {
-        workflow: {
-          type: "object",
-          properties: {
-            name: { type: "string" },
-            trigger: { type: "string" },
-            steps: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  type: { type: "string", enum: ["update", "notify", "condition"] },
-                  entity: { type: "string" },
-                  update: { type: "object" },
-                },
-                required: ["type"],
-              },
-            },
-          },
-          required: ["name", "trigger", "steps"],
-        },
+        workflow: { $ref: "Workflow" },
       },
       required: ["workflow"],
     },
@@ -81,11 +151,13 @@ export const TOOL_REGISTRY: ToolDefinition[] = [
             status: { type: "string" },
             priority: { type: "string" },
             assignee: { type: "string" },
+            project: { type: "string" },
           },
         },
       },
     },
     requiredPermissions: ["read:tasks"],
+    readOnly: true,
   },
 ];
 
@@ -99,9 +171,8 @@ export function getPermittedTools(
 ): ToolDefinition[] {
   return TOOL_REGISTRY.filter((tool) => {
     const nameAllowed = allowedToolNames.includes(tool.name);
-    const hasPermissions = tool.requiredPermissions.every((p) =>
-      agentPermissions.includes(p)
-    );
+    // Scoped grants still expose the tool; each call is checked against its target
+    const hasPermissions = missingPermissions(tool.requiredPermissions, agentPermissions).length === 0;
     return nameAllowed && hasPermissions;
   });
 }
@@ -113,7 +184,8 @@ export function getPermittedTools(
 export function validateToolAccess(
   toolName: string,
   allowedToolNames: string[],
-  agentPermissions: Permission[]
+  agentPermissions: Permission[],
+  targets?: Record<string, unknown>[] // the call's resources; enables scope checks
 ): string | null {
   if (!allowedToolNames.includes(toolName)) {
     return `BLOCKED: Tool "${toolName}" is not in the agent's allowed tools list. This call has been rejected.`;
@@ -124,41 +196,46 @@ export function validateToolAccess(
     return `BLOCKED: Tool "${toolName}" does not exist in the registry.`;
   }
 
-  const missingPermissions = tool.requiredPermissions.filter(
-    (p) => !agentPermissions.includes(p)
-  );
-  if (missingPermissions.length > 0) {
-    return `BLOCKED: Agent lacks permissions: [${missingPermissions.join(", ")}]. This call has been rejected.`;
+  const missing = missingPermissions(tool.requiredPermissions, agentPermissions);
+  if (missing.length > 0) {
+    return `BLOCKED: Agent lacks permissions: [${missing.join(", ")}]. This call has been rejected.`;
+  }
+
+  const outOfScope = targets ? missingPermissions(tool.requiredPermissions, agentPermissions, targets) : [];
+  if (outOfScope.length > 0) {
+    const granted = agentPermissions.filter((g) => outOfScope.some((r) => grantCovers(g, r)));
+    return `BLOCKED: Target is outside the agent's scope for [${outOfScope.join(", ")}] (granted: [${granted.join(", ")}]). This call has been rejected.`;
   }
 
   return null;
 }
 
+/** Read-only tools may run during discussion — they have no side effects. */
+export function isReadOnlyTool(toolName: string): boolean {
+  return TOOL_REGISTRY.find((t) => t.name === toolName)?.readOnly === true;
+}
+
+/**
+ * Check a tool call's arguments against the tool's parameters schema.
+ * Runs after validateToolAccess — unknown tools never reach this gate.
+ */
+export function validateToolArguments(
+  toolName: string,
+  args: Record<string, unknown>
+): ValidationResult {
+  const tool = TOOL_REGISTRY.find((t) => t.name === toolName);
+  if (!tool) {
+    return { valid: false, errors: [`Tool "${toolName}" does not exist in the registry.`] };
+  }
+  return validateAgainstSchema(args, tool.parameters);
+}
+
 // Output schemas for structured validation
 export const OUTPUT_SCHEMAS: Record<string, JSONSchema> = {
   WorkflowDefinition: {
     type: "object",
     properties: {
-      workflow: {
-        type: "object",
-        properties: {
-          name: { type: "string" },
-          trigger: { type: "string" },
-          steps: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                type: { type: "string", enum: ["update", "notify", "condition"] },
-                entity: { type: "string" },
-                update: { type: "object" },
-              },
-              required: ["type"],
-            },
-          },
-        },
-        required: ["name", "trigger", "steps"],
-      },
+      workflow: { $ref: "Workflow" },
     },
     required: ["workflow"],
     additionalProperties: false,
@@ -167,13 +244,7 @@ export const OUTPUT_SCHEMAS: Record<string, JSONSchema> = {
     type: "object",
     properties: {
       taskId: { type: "string" },
-      updates: {
-        type: "object",
-        properties: {
-          status: { type: "string", enum: ["open", "in-progress", "urgent", "done"] },
-          priority: { type: "string", enum: ["low", "medium", "high", "critical"] },
-        },
-      },
+      updates: { $ref: "TaskUpdates" },
     },
     required: ["taskId", "updates"],
     additionalProperties: false,
@@ -188,8 +259,8 @@ export const OUTPUT_SCHEMAS: Record<string, JSONSchema> = {
           properties: {
             id: { type: "string" },
             title: { type: "string" },
-            status: { type: "string" },
-            priority: { type: "string" },
+            status: { $ref: "TaskStatus" },
+            priority: { $ref: "TaskPriority" },
           },
           required: ["id", "title", "status"],
         },
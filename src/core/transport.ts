@@ -0,0 +1,101 @@
+// ==========================================
+// Transport — the HTTP boundary for provider
+// adapters. Any fetch-compatible function can
+// be injected: the browser's fetch or a test
+// double serving recorded fixtures.
+// ==========================================
+
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+export const fetchTransport: Transport = (url, init) => fetch(url, init);
+
+/** Non-2xx response from a vendor API. */
+export class ProviderHttpError extends Error {
+  constructor(
+    readonly vendor: string,
+    readonly status: number,
+    readonly body: string
+  ) {
+    super(`${vendor} API error ${status}: ${body.slice(0, 200)}`);
+    this.name = "ProviderHttpError";
+  }
+}
+
+/** The request never got a response: DNS, connection or a dropped stream. */
+export class NetworkError extends Error {
+  constructor(
+    readonly vendor: string,
+    readonly cause: unknown
+  ) {
+    super(`${vendor} network error: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = "NetworkError";
+  }
+}
+
+/** POST a JSON body and return the response, throwing on HTTP and network errors. */
+export async function postJSON(
+  transport: Transport,
+  vendor: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await transport(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    // An abort is the caller's doing (e.g. a timeout), not the network's
+    throw signal?.aborted ? err : new NetworkError(vendor, err);
+  }
+  if (!response.ok) {
+    throw new ProviderHttpError(vendor, response.status, await response.text());
+  }
+  return response;
+}
+
+/**
+ * Parse a text/event-stream body into its JSON `data:` payloads.
+ * Stops at OpenAI's "[DONE]" sentinel; named events are passed through
+ * since Anthropic repeats the event name inside each payload. A stream
+ * that drops mid-response throws a NetworkError for `vendor`.
+ */
+export async function* readServerSentEvents<T>(response: Response, vendor: string, signal?: AbortSignal): AsyncGenerator<T> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (err) {
+      throw signal?.aborted ? err : new NetworkError(vendor, err);
+    }
+    const { value, done } = chunk;
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary: RegExpMatchArray | null;
+    while ((boundary = buffer.match(/\r?\n\r?\n/))) {
+      const raw = buffer.slice(0, boundary.index);
+      buffer = buffer.slice(boundary.index! + boundary[0].length);
+      const data = raw
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data === "") continue;
+      if (data === "[DONE]") return;
+      yield JSON.parse(data) as T;
+    }
+
+    if (done) return;
+  }
+}
@@ -2,15 +2,56 @@
 // Core Types for the AI Agent Runtime
 // ==========================================
 
-// JSON Schema subset for structured output validation
+// JSON Schema (draft 2020-12) for structured output validation
+export type JSONSchemaType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null";
+
 export interface JSONSchema {
-  type: string;
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+
+  // References — "#/$defs/Name" (local) or a SchemaRegistry id, e.g. "Workflow"
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+
+  // Any instance
+  enum?: unknown[];
+  const?: unknown;
+
+  // Objects
   properties?: Record<string, JSONSchema>;
-  items?: JSONSchema;
   required?: string[];
-  enum?: string[];
-  description?: string;
-  additionalProperties?: boolean;
+  additionalProperties?: boolean | JSONSchema;
+
+  // Arrays
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: "date-time" | "email" | "uri" | (string & {});
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+
+  // Composition
+  allOf?: JSONSchema[];
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  not?: JSONSchema;
 }
 
 // Tool definitions that agents can call
@@ -19,49 +60,112 @@ export interface ToolDefinition {
   description: string;
   parameters: JSONSchema;
   requiredPermissions: Permission[];
+  readOnly?: boolean; // safe to run during discussion, results fed back to the model
 }
 
-// Permission system
-export type Permission =
-  | "read:tasks"
-  | "write:tasks"
-  | "read:workflows"
-  | "write:workflows"
-  | "read:entities"
-  | "write:entities"
-  | "execute:workflows";
+// Permission system — `action:resource`, optionally scoped to matching
+// targets, e.g. `write:tasks[project=onboarding]`. Grants may use `*`.
+export type PermissionAction = "read" | "write" | "execute";
+export type PermissionResource = "tasks" | "workflows" | "entities";
+type PermissionBase = `${PermissionAction | "*"}:${PermissionResource | "*"}`;
+export type Permission = PermissionBase | `${PermissionBase}[${string}]`;
 
 // Structured result from any LLM
 export interface StructuredResult {
   success: boolean;
   data: Record<string, unknown>;
   toolCalls: ToolCall[];
-  reasoning?: string;
+  reasoning?: string; // for display only; never sent back to a model
+  nativeReasoning?: NativeReasoning;
   rawOutput?: string;
 }
 
+// Reasoning blocks in the vendor's own format, e.g. Anthropic's signed
+// thinking blocks. Sent back unchanged on later turns to the same vendor.
+export interface NativeReasoning {
+  vendor: LLMProvider["vendor"];
+  blocks: unknown[];
+}
+
 // A tool call requested by the LLM
 export interface ToolCall {
+  id?: string; // vendor call id, pairs the call with its tool result
   toolName: string;
   arguments: Record<string, unknown>;
   result?: unknown;
-  status: "pending" | "approved" | "rejected" | "executed";
+  status: "pending" | "approved" | "rejected" | "executed" | "failed" | "reverted";
+  rejection?: ToolRejection;
+  policy?: PolicyDecision; // outcome of the agent's argument-level policies
+  review?: ToolCallReview; // the user's decision before execution
+}
+
+// A person's decision on one proposed call; only approved calls execute
+export interface ToolCallReview {
+  decision: "approved" | "rejected";
+  reviewer: string;
+  decidedAt: string; // ISO 8601
+  originalArguments?: Record<string, unknown>; // set when the reviewer edited the arguments
+  signature?: string; // the plan signer's seal over an edit, from the proposal to the current arguments
+  bulk?: boolean; // set by "Approve all"; not enough for calls a policy marks require_approval
+}
+
+// Why the discussion phase refused a tool call
+export type ToolRejectionReason =
+  | "access_denied" // tool not allowed, unknown, or permissions missing
+  | "invalid_arguments" // arguments fail the tool's parameters schema
+  | "policy_denied" // an argument-level policy denied the call
+  | "approval_required" // a policy requires approval and the call was only bulk-approved
+  | "user_rejected"; // the reviewer rejected the call before execution
+
+export interface ToolRejection {
+  reason: ToolRejectionReason;
+  message: string;
+}
+
+// Outcome of running a tool executor against the data store
+export interface ToolExecutionResult {
+  success: boolean;
+  message: string;
+  data?: unknown;
 }
 
 // Supported model identifiers
-export type ModelId = "gpt-5.2" | "claude-opus-4.6" | "gemini-3";
+export type ModelId = "gpt-5.2" | "claude-opus-4.6" | "gemini-3" | "scripted";
+
+// Vendor-neutral conversation history for multi-turn tool use.
+// Adapters translate it into each vendor's native message format.
+export type ConversationMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content?: string; toolCalls: ToolCall[]; nativeReasoning?: NativeReasoning }
+  | { role: "tool"; toolCallId: string; toolName: string; result: ToolExecutionResult };
+
+export interface GenerateOptions {
+  systemPrompt: string;
+  userPrompt: string;
+  tools: ToolDefinition[];
+  outputSchema: JSONSchema;
+  messages?: ConversationMessage[]; // full history; defaults to just userPrompt
+  signal?: AbortSignal; // aborts the in-flight request, e.g. on timeout
+}
+
+// Incremental events from a streamed model turn, normalized across vendors.
+// Tool call events are keyed by `index`, the call's position in the turn.
+export type StreamEvent =
+  | { type: "reasoning_delta"; text: string }
+  | { type: "reasoning_block"; vendor: NativeReasoning["vendor"]; block: unknown } // a finished native block
+  | { type: "tool_call_start"; index: number; id: string; toolName: string }
+  | { type: "tool_call_delta"; index: number; argumentsDelta: string }
+  | { type: "tool_call_end"; index: number }
+  | { type: "output_delta"; jsonDelta: string }
+  | { type: "done"; result: StructuredResult };
 
 // LLM Provider interface — the unified adapter
 export interface LLMProvider {
   readonly modelId: ModelId;
   readonly displayName: string;
-  readonly vendor: "openai" | "anthropic" | "google";
-  generateStructuredOutput(options: {
-    systemPrompt: string;
-    userPrompt: string;
-    tools: ToolDefinition[];
-    outputSchema: JSONSchema;
-  }): Promise<StructuredResult>;
+  readonly vendor: "openai" | "anthropic" | "google" | "scripted";
+  generateStructuredOutput(options: GenerateOptions): Promise<StructuredResult>;
+  streamStructuredOutput(options: GenerateOptions): AsyncIterable<StreamEvent>;
 }
 
 // Agent configuration
@@ -72,6 +176,56 @@ export interface AgentConfig {
   allowedTools: string[];
   outputSchema: string; // references a schema name
   permissions: Permission[];
+  maxTurns?: number; // model round-trips allowed in discussion
+  providerPolicy?: ProviderPolicy;
+  schemaRepairAttempts?: number; // re-ask the model to fix invalid output; 0 disables repair
+  policies?: ToolPolicy[]; // argument-level constraints evaluated per call
+  order?: number; // position in agent lists, lowest first
+}
+
+// ---------- Tool Policies ----------
+// Declarative, per-call constraints on tool arguments. Paths are dotted and
+// rooted at the evaluation context: `args`, `agent`, when the call names
+// a taskId the stored `task`, and for a cron or interval workflow trigger
+// `schedule.minutesBetweenRuns`.
+
+export type PolicyEffect = "allow" | "deny" | "require_approval";
+
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | {
+      path: string;
+      equals?: unknown;
+      notEquals?: unknown;
+      in?: unknown[];
+      matches?: string; // regex, string values only
+      exists?: boolean;
+      equalsPath?: string; // compare against another context path
+      notEqualsPath?: string;
+    };
+
+export interface ToolPolicy {
+  id: string;
+  tool: string; // tool name, or "*" for every tool
+  effect: PolicyEffect;
+  when?: PolicyCondition; // omitted applies to every call of the tool
+  reason: string; // shown in logs and to the model when the policy applies
+}
+
+export interface PolicyDecision {
+  effect: PolicyEffect; // deny beats require_approval beats allow
+  matched: { id: string; effect: PolicyEffect; reason: string }[];
+}
+
+// How the runtime calls providers: per-attempt timeout, retries with
+// exponential backoff on retryable errors, then the next fallback model
+export interface ProviderPolicy {
+  timeoutMs?: number;
+  maxRetries?: number; // retries per model after the first attempt
+  backoffMs?: number; // first retry delay; doubles on each further retry
+  fallbackModels?: ModelId[]; // tried in order once a model is exhausted
 }
 
 // Agent run request
@@ -84,9 +238,12 @@ export interface AgentRunRequest {
 // Execution phases
 export type Phase = "discussion" | "execution";
 
-// Log entry for audit trail
+// Log entry for audit trail; seq/prevHash/hash chain it into the audit log
 export interface LogEntry {
   id: string;
+  seq: number;
+  prevHash: string;
+  hash: string;
   timestamp: Date;
   phase: Phase;
   model: ModelId;
@@ -101,3 +258,85 @@ export interface ValidationResult {
   valid: boolean;
   errors: string[];
 }
+
+// ==========================================
+// Domain entities managed by the data store
+// ==========================================
+
+export type TaskStatus = "open" | "in-progress" | "urgent" | "done";
+export type TaskPriority = "low" | "medium" | "high" | "critical";
+
+export interface Task {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  assignee?: string;
+  project?: string;
+  dueDate?: string; // ISO 8601
+}
+
+export type TaskFilter = Partial<Pick<Task, "status" | "priority" | "assignee" | "project">>;
+export type TaskChanges = Partial<Omit<Task, "id">>;
+
+export interface WorkflowStep {
+  type: "update" | "notify" | "condition";
+  entity?: string;
+  update?: Record<string, unknown>; // update: the task changes; notify: the payload, `message` included
+  condition?: string; // condition: expression that must hold for the remaining steps to run
+}
+
+// Task events a workflow can be triggered by
+export type TaskEventType = "task.created" | "task.updated" | "task.overdue";
+
+// What starts a workflow: a task event, a cron schedule (UTC), a fixed interval or an explicit run
+export type WorkflowTrigger =
+  | { type: "event"; event: TaskEventType }
+  | { type: "cron"; schedule: string } // minute hour day-of-month month day-of-week
+  | { type: "interval"; everyMinutes: number }
+  | { type: "manual" };
+
+// One saved version of a workflow; the id and name stay the same across versions
+export interface Workflow {
+  id: string;
+  name: string;
+  trigger: WorkflowTrigger;
+  steps: WorkflowStep[];
+  version: number; // 1 for the first save, +1 for each later save or rollback
+  createdAt: string; // ISO 8601, when this version was saved
+  restoredFrom?: number; // the version a rollback copied
+}
+
+export type WorkflowInput = Omit<Workflow, "id" | "version" | "createdAt" | "restoredFrom">;
+
+export type TaskInput = Omit<Task, "id">;
+
+// Changes a store reports to its subscribers, after they are applied
+export type StoreEvent =
+  | { type: "task.created"; task: Task }
+  | { type: "task.updated"; task: Task; before: Task }
+  | { type: "workflow.created"; workflow: Workflow }
+  | { type: "workflow.updated"; workflow: Workflow; before: Workflow } // a new version
+  | { type: "workflow.deleted"; workflow: Workflow };
+
+// Storage backend for tasks and workflows — in-memory by default, swappable
+export interface DataStore {
+  getTask(id: string): Promise<Task | undefined>;
+  listTasks(filter?: TaskFilter): Promise<Task[]>;
+  createTask(input: TaskInput): Promise<Task>;
+  updateTask(id: string, changes: TaskChanges): Promise<Task>; // a change set to undefined removes the field
+  createWorkflow(input: WorkflowInput): Promise<Workflow>; // same name as an existing workflow: saves a new version
+  listWorkflows(): Promise<Workflow[]>; // current versions
+  listWorkflowVersions(id: string): Promise<Workflow[]>; // oldest first
+  rollbackWorkflow(id: string, version: number): Promise<Workflow>; // saves `version`'s definition as a new version
+  deleteWorkflow(id: string): Promise<void>; // every version; used to compensate createWorkflow
+  subscribe(listener: (event: StoreEvent) => void): () => void; // returns unsubscribe
+  holdEvents(): StoreEventHold; // buffers the events of writes made through the hold; used to make a run's writes atomic
+}
+
+// Events buffered by DataStore.holdEvents; a hold opened through another hold's store nests in it
+export interface StoreEventHold {
+  store: DataStore; // write through this to hold the events; other writers are not held
+  release(): void; // publish the buffered events (or pass them to the enclosing hold)
+  discard(): void; // drop them, e.g. after a rollback undid the writes
+}
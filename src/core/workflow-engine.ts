@@ -0,0 +1,401 @@
+import type { AgentConfig, DataStore, StoreEvent, Task, ToolCall, Workflow, WorkflowStep } from "./types";
+import { validateToolAccess, validateToolArguments } from "./tools";
+import { resolveToolTargets } from "./permissions";
+import { buildPolicyContext, describeDecision, evaluatePolicies, parsePolicyFile } from "./policy-engine";
+import { POLICY_FILES } from "./agent-definitions";
+import { evaluateWorkflowCondition } from "./expressions";
+import { executeToolCall } from "./executors";
+import { getDefaultStore } from "./store";
+import { nextTriggerTime, systemClock, type Clock, type TimerHandle } from "./schedule";
+
+// ==========================================
+// Workflow Engine — runs stored workflows when
+// their trigger fires: a task event, a cron
+// schedule, an interval, or an explicit
+// `trigger()` call. Overdue tasks are checked
+// on the engine's clock. `update` steps go through
+// the same access, argument and policy checks
+// as agent tool calls; `notify` steps emit
+// notifications; a `condition` expression that
+// does not hold stops the run. Every run keeps
+// its own step log.
+// ==========================================
+
+export type WorkflowEvent =
+  | StoreEvent
+  | { type: "task.overdue"; task: Task }
+  | { type: "schedule.fired"; workflowId: string; scheduledFor: string } // cron and interval triggers
+  | { type: "manual"; workflowId: string };
+
+/** The identity update steps run as — its grants and policies bound what workflows may change. */
+export type WorkflowPrincipal = Pick<AgentConfig, "name" | "allowedTools" | "permissions" | "policies">;
+
+// Workflows change tasks under the same policies as the task agent
+const TASK_POLICY_FILE = "policies/task-agent.json";
+
+export const DEFAULT_WORKFLOW_PRINCIPAL: WorkflowPrincipal = {
+  name: "workflow-engine",
+  allowedTools: ["updateTask"],
+  permissions: ["read:tasks", "write:tasks"],
+  policies: parsePolicyFile(POLICY_FILES[TASK_POLICY_FILE], TASK_POLICY_FILE),
+};
+
+export interface WorkflowNotification {
+  workflowId: string;
+  workflowName: string;
+  runId: string;
+  taskId?: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export interface WorkflowStepLog {
+  index: number;
+  type: WorkflowStep["type"];
+  status: "ok" | "failed" | "halted";
+  message: string;
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  event: WorkflowEvent["type"];
+  taskId?: string;
+  causedBy?: string; // the run whose write raised the triggering event
+  startedAt: string; // ISO 8601
+  finishedAt: string; // ISO 8601
+  status: "completed" | "halted" | "failed"; // halted: a condition step did not hold
+  steps: WorkflowStepLog[];
+}
+
+export interface WorkflowEngineOptions {
+  store: DataStore;
+  principal?: WorkflowPrincipal;
+  onNotify?: (notification: WorkflowNotification) => void;
+  maxCascadeDepth?: number; // how deep workflow updates may trigger further workflows
+  clock?: Clock; // time source and timers for schedules; systemClock by default
+  overdueCheckMs?: number; // how often the clock runs checkOverdue
+  onError?: (error: unknown, event: WorkflowEvent) => void; // e.g. a throwing run listener
+}
+
+const DEFAULT_MAX_CASCADE_DEPTH = 3;
+const DEFAULT_OVERDUE_CHECK_MS = 60_000;
+
+// What raised a queued event: a run's store write, and the runs that led to it
+interface Cause {
+  runId: string;
+  depth: number; // the causing run's event depth
+  chain: string[]; // `${workflowId}@${taskId}` of every run in the cascade
+}
+
+interface QueuedEvent {
+  event: WorkflowEvent;
+  depth: number;
+  cause?: Cause;
+}
+
+export class WorkflowEngine {
+  private readonly store: DataStore;
+  private readonly principal: WorkflowPrincipal;
+  private readonly maxCascadeDepth: number;
+  private readonly clock: Clock;
+  private workflows = new Map<string, Workflow>();
+  private timers = new Map<string, TimerHandle>(); // workflowId → next scheduled fire
+  private overdueTimer: TimerHandle | null = null;
+  private history: WorkflowRun[] = [];
+  private overdueSeen = new Set<string>(); // `${taskId}@${dueDate}` already reported
+  private queue: QueuedEvent[] = [];
+  private draining: Promise<void> | null = null;
+  private causing: Cause | null = null; // set only while a step's store call runs synchronously
+  private started = false;
+  private runCounter = 0;
+  private unsubscribe: (() => void) | null = null;
+  private listeners = new Set<(run: WorkflowRun) => void>();
+
+  constructor(private readonly options: WorkflowEngineOptions) {
+    this.store = options.store;
+    this.principal = options.principal ?? DEFAULT_WORKFLOW_PRINCIPAL;
+    this.maxCascadeDepth = options.maxCascadeDepth ?? DEFAULT_MAX_CASCADE_DEPTH;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /** Register the store's workflows, listen for changes and start their schedules and the overdue check. */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    for (const workflow of await this.store.listWorkflows()) this.register(workflow);
+    this.unsubscribe = this.store.subscribe((event) => this.enqueue(event, this.causing ?? undefined));
+    this.scheduleOverdueCheck();
+  }
+
+  stop(): void {
+    this.started = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.overdueTimer !== null) this.clock.clearTimer(this.overdueTimer);
+    this.overdueTimer = null;
+    for (const handle of this.timers.values()) this.clock.clearTimer(handle);
+    this.timers.clear();
+  }
+
+  register(workflow: Workflow): void {
+    this.unregister(workflow.id);
+    this.workflows.set(workflow.id, workflow);
+    if (this.started) this.schedule(workflow, this.clock.now());
+  }
+
+  unregister(workflowId: string): void {
+    this.workflows.delete(workflowId);
+    const handle = this.timers.get(workflowId);
+    if (handle !== undefined) this.clock.clearTimer(handle);
+    this.timers.delete(workflowId);
+  }
+
+  /** Run a workflow now, whatever its trigger. */
+  async trigger(workflowId: string): Promise<void> {
+    if (!this.workflows.has(workflowId)) throw new Error(`Unknown workflow "${workflowId}"`);
+    await this.dispatch({ type: "manual", workflowId });
+  }
+
+  registered(): Workflow[] {
+    return [...this.workflows.values()];
+  }
+
+  runs(): WorkflowRun[] {
+    return [...this.history];
+  }
+
+  /** Hear about every finished run; returns unsubscribe. */
+  subscribe(listener: (run: WorkflowRun) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Queue an event and resolve once it — and everything it cascaded into — has run. */
+  async dispatch(event: WorkflowEvent): Promise<void> {
+    this.enqueue(event);
+    await this.idle();
+  }
+
+  /** Emit `task.overdue` once for each open task past its due date. */
+  async checkOverdue(): Promise<void> {
+    const now = this.clock.now().getTime();
+    for (const task of await this.store.listTasks()) {
+      if (!task.dueDate || task.status === "done" || Date.parse(task.dueDate) >= now) continue;
+      const key = `${task.id}@${task.dueDate}`;
+      if (this.overdueSeen.has(key)) continue;
+      this.overdueSeen.add(key);
+      this.enqueue({ type: "task.overdue", task });
+    }
+    await this.idle();
+  }
+
+  async idle(): Promise<void> {
+    while (this.draining) await this.draining;
+  }
+
+  // Timed triggers fire, then re-arm from their scheduled time so runs do not drift
+  private schedule(workflow: Workflow, after: Date): void {
+    const at = nextTriggerTime(workflow.trigger, after);
+    if (!at) return;
+    const handle = this.clock.setTimer(() => {
+      this.timers.delete(workflow.id);
+      if (this.workflows.get(workflow.id) !== workflow) return;
+      this.schedule(workflow, at);
+      return this.dispatch({ type: "schedule.fired", workflowId: workflow.id, scheduledFor: at.toISOString() });
+    }, at.getTime() - this.clock.now().getTime());
+    this.timers.set(workflow.id, handle);
+  }
+
+  private scheduleOverdueCheck(): void {
+    this.overdueTimer = this.clock.setTimer(() => {
+      this.scheduleOverdueCheck();
+      return this.checkOverdue();
+    }, this.options.overdueCheckMs ?? DEFAULT_OVERDUE_CHECK_MS);
+  }
+
+  // Events a run's writes raise are one level deeper than the event that started it
+  private enqueue(event: WorkflowEvent, cause?: Cause): void {
+    this.queue.push({ event, depth: cause ? cause.depth + 1 : 0, cause });
+    if (!this.draining) this.draining = this.drain();
+  }
+
+  // One event's failure is reported and the rest still run
+  private async drain(): Promise<void> {
+    try {
+      for (let next = this.queue.shift(); next; next = this.queue.shift()) {
+        try {
+          await this.handle(next);
+        } catch (err) {
+          this.options.onError?.(err, next.event);
+        }
+      }
+    } finally {
+      this.draining = null;
+    }
+  }
+
+  private async handle({ event, depth, cause }: QueuedEvent): Promise<void> {
+    if (event.type === "workflow.created" || event.type === "workflow.updated") return this.register(event.workflow);
+    if (event.type === "workflow.deleted") return this.unregister(event.workflow.id);
+    if (depth > this.maxCascadeDepth) return;
+
+    for (const workflow of this.workflows.values()) {
+      if (!triggeredBy(workflow, event)) continue;
+      // A workflow does not re-run for a task its own cascade is already handling
+      const key = `${workflow.id}@${"task" in event ? event.task.id : ""}`;
+      if (cause?.chain.includes(key)) continue;
+      const run = await this.run(workflow, event, { depth, chain: [...(cause?.chain ?? []), key], causedBy: cause?.runId });
+      this.history.push(run);
+      for (const listener of this.listeners) listener(run);
+    }
+  }
+
+  private async run(
+    workflow: Workflow,
+    event: WorkflowEvent,
+    { depth, chain, causedBy }: Omit<Cause, "runId"> & { causedBy?: string }
+  ): Promise<WorkflowRun> {
+    let task = "task" in event ? event.task : undefined;
+    const run: WorkflowRun = {
+      id: `wfrun-${++this.runCounter}`,
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      event: event.type,
+      taskId: task?.id,
+      causedBy,
+      startedAt: this.clock.now().toISOString(),
+      finishedAt: "",
+      status: "completed",
+      steps: [],
+    };
+    const store = this.attributedTo({ runId: run.id, depth, chain });
+
+    for (const [index, step] of workflow.steps.entries()) {
+      let result: Pick<WorkflowStepLog, "status" | "message">;
+      try {
+        // Earlier steps and other writers may have changed the task since the event
+        if (task) task = (await this.store.getTask(task.id)) ?? task;
+        result = await this.runStep(step, run, task, event, store);
+      } catch (err) {
+        result = { status: "failed", message: err instanceof Error ? err.message : String(err) };
+      }
+      const { status, message } = result;
+      run.steps.push({ index, type: step.type, status, message });
+      if (status !== "ok") {
+        run.status = status;
+        break;
+      }
+    }
+    run.finishedAt = this.clock.now().toISOString();
+    return run;
+  }
+
+  private async runStep(
+    step: WorkflowStep,
+    run: WorkflowRun,
+    task: Task | undefined,
+    event: WorkflowEvent,
+    store: DataStore
+  ): Promise<Pick<WorkflowStepLog, "status" | "message">> {
+    switch (step.type) {
+      case "condition": {
+        if (!step.condition) return { status: "failed", message: "Condition step has no condition" };
+        try {
+          const held = evaluateWorkflowCondition(step.condition, {
+            variables: { task, event: { type: event.type } },
+            now: this.clock.now(),
+          });
+          return held
+            ? { status: "ok", message: `Condition held: ${step.condition}` }
+            : { status: "halted", message: `Condition did not hold: ${step.condition} — remaining steps skipped` };
+        } catch (err) {
+          return { status: "failed", message: err instanceof Error ? err.message : String(err) };
+        }
+      }
+      case "notify": {
+        const message = typeof step.update?.message === "string" ? step.update.message : `Workflow "${run.workflowName}" fired`;
+        this.options.onNotify?.({
+          workflowId: run.workflowId,
+          workflowName: run.workflowName,
+          runId: run.id,
+          taskId: task?.id,
+          message,
+          data: step.update,
+        });
+        return { status: "ok", message: `Notified: ${message}` };
+      }
+      case "update": {
+        if (!task) return { status: "failed", message: `Event ${event.type} has no task to update` };
+        const call: ToolCall = {
+          id: `${run.id}:update`,
+          toolName: "updateTask",
+          arguments: { taskId: task.id, updates: step.update ?? {} },
+          status: "approved",
+        };
+        const blocked = await this.gate(call);
+        if (blocked) return { status: "failed", message: blocked };
+        const outcome = await executeToolCall(call, store);
+        return { status: outcome.success ? "ok" : "failed", message: outcome.message };
+      }
+      default:
+        return { status: "failed", message: `Unknown step type "${(step as WorkflowStep).type}"` };
+    }
+  }
+
+  /**
+   * The store as seen by a run's steps: events raised synchronously by its
+   * calls are attributed to `cause`. A store that emits asynchronously loses
+   * the attribution, and its events start a new cascade.
+   */
+  private attributedTo(cause: Cause): DataStore {
+    return new Proxy(this.store, {
+      get: (target, prop) => {
+        const value = Reflect.get(target, prop, target);
+        if (typeof value !== "function") return value;
+        return (...args: unknown[]) => {
+          this.causing = cause;
+          try {
+            return value.apply(target, args);
+          } finally {
+            this.causing = null;
+          }
+        };
+      },
+    });
+  }
+
+  /** The checks an agent's tool call passes before execution; returns why it is blocked. */
+  private async gate(call: ToolCall): Promise<string | null> {
+    const args = validateToolArguments(call.toolName, call.arguments);
+    if (!args.valid) return `BLOCKED: Invalid arguments for ${call.toolName}: ${args.errors.join("; ")}`;
+
+    const { allowedTools, permissions, policies = [] } = this.principal;
+    const access = validateToolAccess(call.toolName, allowedTools, permissions, await resolveToolTargets(call, this.store));
+    if (access) return access;
+
+    const context = await buildPolicyContext(call, this.principal, this.store, this.clock.now());
+    const decision = evaluatePolicies(policies, call, context);
+    // Nobody is around to approve, so require_approval blocks too
+    return decision.effect === "allow" ? null : `BLOCKED by ${describeDecision(decision)}`;
+  }
+}
+
+function triggeredBy(workflow: Workflow, event: WorkflowEvent): boolean {
+  if (event.type === "schedule.fired" || event.type === "manual") return event.workflowId === workflow.id;
+  return workflow.trigger.type === "event" && workflow.trigger.event === event.type;
+}
+
+// ---------- Default Engine ----------
+// Created on first use so it watches whichever store is the default by then
+let defaultWorkflowEngine: WorkflowEngine | null = null;
+
+export function getDefaultWorkflowEngine(): WorkflowEngine {
+  defaultWorkflowEngine ??= new WorkflowEngine({ store: getDefaultStore() });
+  return defaultWorkflowEngine;
+}
+
+export function setDefaultWorkflowEngine(engine: WorkflowEngine): void {
+  defaultWorkflowEngine = engine;
+}
@@ -0,0 +1,126 @@
+import type { ToolCall, WorkflowInput, WorkflowStep, WorkflowTrigger } from "./types";
+import { OUTPUT_SCHEMAS } from "./tools";
+import { validateAgainstSchema } from "./schema-validator";
+import { reviewToolCall } from "./tool-review";
+
+// ==========================================
+// Workflow Graph — a WorkflowDefinition as a
+// trigger → step chain with condition branches,
+// and the edits a reviewer makes to it. Edits
+// are revalidated against the definition schema
+// and recorded as a review of the createWorkflow
+// call, so the sealed plan stays verifiable.
+// ==========================================
+
+export type WorkflowGraphNode =
+  | { id: "trigger"; kind: "trigger"; label: string }
+  | { id: string; kind: "step"; index: number; step: WorkflowStep; label: string }
+  | { id: "done" | "halted"; kind: "end"; label: string };
+
+export interface WorkflowGraphEdge {
+  from: string;
+  to: string;
+  branch?: "holds" | "fails"; // condition steps only
+}
+
+export interface WorkflowGraph {
+  nodes: WorkflowGraphNode[];
+  edges: WorkflowGraphEdge[];
+}
+
+export function describeTrigger(trigger: WorkflowTrigger): string {
+  switch (trigger.type) {
+    case "event":
+      return `on ${trigger.event}`;
+    case "cron":
+      return `cron ${trigger.schedule} (UTC)`;
+    case "interval":
+      return `every ${trigger.everyMinutes} min`;
+    case "manual":
+      return "manual";
+  }
+}
+
+export function describeStep(step: WorkflowStep): string {
+  switch (step.type) {
+    case "condition":
+      return `if ${step.condition ?? "(no condition)"}`;
+    case "update":
+      return `update task: ${Object.entries(step.update ?? {}).map(([k, v]) => `${k} = ${JSON.stringify(v)}`).join(", ") || "(no changes)"}`;
+    case "notify":
+      return `notify: ${typeof step.update?.message === "string" ? step.update.message : "(default message)"}`;
+    default:
+      return (step as WorkflowStep).type;
+  }
+}
+
+/** Trigger, then each step in order; a condition that fails halts the run. */
+export function buildWorkflowGraph(workflow: WorkflowInput): WorkflowGraph {
+  const nodes: WorkflowGraphNode[] = [{ id: "trigger", kind: "trigger", label: describeTrigger(workflow.trigger) }];
+  const edges: WorkflowGraphEdge[] = [];
+  let previous = "trigger";
+  let branch: WorkflowGraphEdge["branch"];
+  let halts = false;
+
+  for (const [index, step] of workflow.steps.entries()) {
+    const id = `step-${index}`;
+    nodes.push({ id, kind: "step", index, step, label: describeStep(step) });
+    edges.push({ from: previous, to: id, ...(branch ? { branch } : {}) });
+    if (step.type === "condition") {
+      edges.push({ from: id, to: "halted", branch: "fails" });
+      halts = true;
+    }
+    branch = step.type === "condition" ? "holds" : undefined;
+    previous = id;
+  }
+
+  nodes.push({ id: "done", kind: "end", label: "Done" });
+  edges.push({ from: previous, to: "done", ...(branch ? { branch } : {}) });
+  if (halts) nodes.push({ id: "halted", kind: "end", label: "Halted" });
+  return { nodes, edges };
+}
+
+/** Schema errors for a `{ workflow }` definition; empty when valid. */
+export function validateWorkflowDefinition(definition: unknown): string[] {
+  return validateAgainstSchema(definition, OUTPUT_SCHEMAS.WorkflowDefinition).errors;
+}
+
+/** Split definition errors by the step they point at; the rest concern the workflow as a whole. */
+export function errorsByStep(errors: string[]): { workflow: string[]; steps: Map<number, string[]> } {
+  const steps = new Map<number, string[]>();
+  const workflow: string[] = [];
+  for (const error of errors) {
+    const match = /^\$\.workflow\.steps\[(\d+)\]/.exec(error);
+    if (!match) {
+      workflow.push(error);
+      continue;
+    }
+    const index = Number(match[1]);
+    steps.set(index, [...(steps.get(index) ?? []), error]);
+  }
+  return { workflow, steps };
+}
+
+/** The createWorkflow call a plan would execute, with the definition it carries now. */
+export function findWorkflowCall(calls: ToolCall[]): { index: number; workflow: WorkflowInput } | null {
+  const index = calls.findIndex((c) => c.toolName === "createWorkflow" && c.review?.decision !== "rejected");
+  if (index === -1 || validateWorkflowDefinition(calls[index].arguments).length > 0) return null;
+  return { index, workflow: calls[index].arguments.workflow as WorkflowInput };
+}
+
+/**
+ * Approve a createWorkflow call with an edited definition. The definition is
+ * checked against OUTPUT_SCHEMAS.WorkflowDefinition first, then against the
+ * tool's parameters by the review itself.
+ */
+export function editWorkflowCall(
+  call: ToolCall,
+  workflow: WorkflowInput,
+  reviewer: string,
+  now = new Date()
+): { call: ToolCall; errors: string[] } {
+  const definition = { workflow };
+  const errors = validateWorkflowDefinition(definition);
+  if (errors.length > 0) return { call, errors };
+  return reviewToolCall(call, { decision: "approved", reviewer, arguments: definition }, now);
+}
@@ -0,0 +1,95 @@
+import type { DataStore, Workflow, WorkflowInput, WorkflowStep, WorkflowTrigger } from "./types";
+import { canonicalJSON } from "./audit-log";
+import { describeStep, describeTrigger } from "./workflow-graph";
+
+// ==========================================
+// Workflow Versions — structural diffs between
+// two versions of a workflow: trigger changes
+// and steps added, removed or changed, aligned
+// so an inserted step does not show every step
+// after it as changed.
+// ==========================================
+
+export type StepChange =
+  | { kind: "added"; index: number; step: WorkflowStep } // index in the newer version
+  | { kind: "removed"; index: number; step: WorkflowStep } // index in the older version
+  | { kind: "changed"; index: number; before: WorkflowStep; after: WorkflowStep; fields: (keyof WorkflowStep)[] };
+
+export interface WorkflowDiff {
+  trigger?: { before: WorkflowTrigger; after: WorkflowTrigger };
+  steps: StepChange[];
+  unchanged: boolean;
+}
+
+const same = (a: unknown, b: unknown) => canonicalJSON(a) === canonicalJSON(b);
+
+/**
+ * Align steps on their longest common subsequence; within each gap between
+ * kept steps, removed and added steps pair up as changes, the rest stay
+ * additions or removals.
+ */
+export function diffWorkflows(before: WorkflowInput, after: WorkflowInput): WorkflowDiff {
+  const a = before.steps;
+  const b = after.steps;
+  // lcs[i][j]: length of the common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(a[i], b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const steps: StepChange[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      const [from, to] = [a[removed[k]], b[added[k]]];
+      const fields = (["type", "entity", "condition", "update"] as const).filter((f) => !same(from[f], to[f]));
+      steps.push({ kind: "changed", index: added[k], before: from, after: to, fields });
+    }
+    for (const i of removed.slice(paired)) steps.push({ kind: "removed", index: i, step: a[i] });
+    for (const j of added.slice(paired)) steps.push({ kind: "added", index: j, step: b[j] });
+    removed = [];
+    added = [];
+  };
+
+  let [i, j] = [0, 0];
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(a[i], b[j])) {
+      flush();
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(j++);
+    } else {
+      removed.push(i++);
+    }
+  }
+  flush();
+
+  const trigger = same(before.trigger, after.trigger) ? undefined : { before: before.trigger, after: after.trigger };
+  return { ...(trigger ? { trigger } : {}), steps, unchanged: !trigger && steps.length === 0 };
+}
+
+/** One line per change, e.g. `+ step 3: notify: Escalated` or `~ step 1 condition: ... → ...`. */
+export function describeWorkflowDiff(diff: WorkflowDiff): string[] {
+  const lines: string[] = [];
+  if (diff.trigger) lines.push(`~ trigger: ${describeTrigger(diff.trigger.before)} → ${describeTrigger(diff.trigger.after)}`);
+  for (const change of diff.steps) {
+    if (change.kind === "added") lines.push(`+ step ${change.index + 1}: ${describeStep(change.step)}`);
+    else if (change.kind === "removed") lines.push(`- step ${change.index + 1}: ${describeStep(change.step)}`);
+    else lines.push(`~ step ${change.index + 1}: ${describeStep(change.before)} → ${describeStep(change.after)}`);
+  }
+  return lines;
+}
+
+/** The stored workflow a proposal would save a new version of, and how the proposal differs from it. */
+export async function diffAgainstCurrent(
+  proposal: WorkflowInput,
+  store: DataStore
+): Promise<{ current: Workflow; diff: WorkflowDiff } | null> {
+  const current = (await store.listWorkflows()).find((w) => w.name === proposal.name);
+  return current ? { current, diff: diffWorkflows(current, proposal) } : null;
+}
@@ -1,13 +1,31 @@
   import { useState, useRef, useEffect } from "react";
-import type { ModelId, Phase, LogEntry } from "@/core/types";
-import { runDiscussion, runExecution, AGENT_CONFIGS, type AgentRunResult } from "@/core/agent-runtime";
+import type { ModelId, Phase, LogEntry, AgentRunRequest, Workflow, WorkflowInput } from "@/core/types";
+import { AGENT_CONFIGS, runDiscussion, runExecution, previewExecution, AgentRunError, type AgentRunResult } from "@/core/agent-runtime";
 import { ModelSelector } from "@/components/ModelSelector";
 import { AgentSidebar } from "@/components/AgentSidebar";
 import { ExecutionLogs } from "@/components/ExecutionLogs";
 import { ToolCallDisplay } from "@/components/ToolCallDisplay";
 import { StructuredOutput } from "@/components/StructuredOutput";
+import { DiffPreview } from "@/components/DiffPreview";
+import { WorkflowGraph } from "@/components/WorkflowGraph";
+import { WorkflowVersionDiff } from "@/components/WorkflowVersionDiff";
 import { PhaseIndicator } from "@/components/PhaseIndicator";
 import { OnebeamLogo } from "@/components/OnebeamLogo";
+import { StreamingPanel } from "@/components/StreamingPanel";
+import { RunHistory } from "@/components/RunHistory";
+import { WorkflowActivity } from "@/components/WorkflowActivity";
+import { exportAuditLog, getDefaultAuditLog, verifyAuditLog, type AuditVerification } from "@/core/audit-log";
+import { logsToCSV, logsToJSONL, runToOtelTrace } from "@/core/log-export";
+import type { DryRunResult } from "@/core/dry-run";
+import { getDefaultWorkflowEngine, type WorkflowRun } from "@/core/workflow-engine";
+import { createRunId, getDefaultRunStore, type RunRecord } from "@/core/run-history";
+import { StreamAccumulator, type StreamSnapshot } from "@/core/streaming";
+import { approveUndecided, needsIndividualApproval, reviewToolCall, type ReviewInput } from "@/core/tool-review";
+import { editWorkflowCall, findWorkflowCall, validateWorkflowDefinition } from "@/core/workflow-graph";
+import { diffAgainstCurrent, type WorkflowDiff } from "@/core/workflow-versions";
+import { getDefaultStore } from "@/core/store";
+import { cn } from "@/lib/utils";
+
 const EXAMPLE_PROMPTS = [
   "Create a workflow that marks overdue tasks as urgent",
   "List all current tasks",
@@ -16,20 +34,82 @@ const EXAMPLE_PROMPTS = [
 ];
 
 const Index = () => {
-  const [selectedModel, setSelectedModel] = useState<ModelId>("claude-opus-4.6");
-  const [selectedAgent, setSelectedAgent] = useState("workflow-agent");
+  const [selectedModel, setSelectedModel] = useState<ModelId>("scripted");
+  const [selectedAgent, setSelectedAgent] = useState(AGENT_CONFIGS[0].name);
   const [input, setInput] = useState("");
   const [isRunning, setIsRunning] = useState(false);
   const [currentPhase, setCurrentPhase] = useState<Phase | null>(null);
   const [discussionResult, setDiscussionResult] = useState<AgentRunResult | null>(null);
   const [executionResult, setExecutionResult] = useState<AgentRunResult | null>(null);
   const [allLogs, setAllLogs] = useState<LogEntry[]>([]);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [liveStream, setLiveStream] = useState<{ turn: number; snapshot: StreamSnapshot } | null>(null);
+  const [currentRun, setCurrentRun] = useState<RunRecord | null>(null);
+  const [isReplay, setIsReplay] = useState(false); // a reopened past run is read-only
+  const [history, setHistory] = useState<RunRecord[]>([]);
+  const [chainCheck, setChainCheck] = useState<AuditVerification | null>(null);
+  const [reviewer, setReviewer] = useState("operator");
+  const [preview, setPreview] = useState<DryRunResult | null>(null);
+  const [workflowRuns, setWorkflowRuns] = useState<WorkflowRun[]>([]);
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [versionDiff, setVersionDiff] = useState<{ current: Workflow; diff: WorkflowDiff } | null>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     logsEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    setChainCheck(null);
   }, [allLogs]);
 
+  // Failures outside a run still reach the user through the error banner
+  const reportError = (err: unknown) => {
+    console.error(err);
+    setRunError(err instanceof Error ? err.message : String(err));
+  };
+
+  useEffect(() => {
+    getDefaultRunStore().list().then(setHistory).catch(reportError);
+  }, []);
+
+  // Workflows created by executed plans run here as their triggers fire
+  useEffect(() => {
+    const engine = getDefaultWorkflowEngine();
+    const refresh = () => {
+      setWorkflowRuns(engine.runs().reverse().slice(0, 8));
+      setWorkflows(engine.registered());
+    };
+    engine.start().then(refresh).catch(reportError);
+    const unsubscribe = engine.subscribe(refresh);
+    return () => {
+      unsubscribe();
+      engine.stop();
+    };
+  }, []);
+
+  const saveRun = async (record: RunRecord) => {
+    setCurrentRun(record);
+    try {
+      const runStore = getDefaultRunStore();
+      await runStore.save(record);
+      setHistory(await runStore.list());
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleOpenRun = (record: RunRecord) => {
+    if (isRunning) return;
+    setCurrentRun(record);
+    setIsReplay(true);
+    setSelectedAgent(record.request.agent);
+    if (record.request.model) setSelectedModel(record.request.model);
+    setInput(record.request.input);
+    setDiscussionResult(record.discussion ?? null);
+    setExecutionResult(record.execution ?? null);
+    setRunError(record.error ?? null);
+    setAllLogs(record.logs);
+    setCurrentPhase(record.execution ? "execution" : record.discussion ? "discussion" : null);
+  };
+
   const handleRun = async () => {
     if (!input.trim() || isRunning) return;
 
@@ -37,50 +117,192 @@ const Index = () => {
     setCurrentPhase("discussion");
     setDiscussionResult(null);
     setExecutionResult(null);
+    setRunError(null);
     setAllLogs([]);
+    setIsReplay(false);
+
+    const request: AgentRunRequest = { agent: selectedAgent, model: selectedModel, input: input.trim() };
+    const run = { id: createRunId(), createdAt: new Date().toISOString(), request };
+
+    // One accumulator per model turn and attempt, rendered as events arrive
+    let streamKey = "";
+    let accumulator = new StreamAccumulator();
 
     try {
-      const result = await runDiscussion({
-        agent: selectedAgent,
-        model: selectedModel,
-        input: input.trim(),
-      });
+      const result = await runDiscussion(
+        request,
+        {
+          onStreamEvent: (event, turn, attempt) => {
+            if (`${turn}:${attempt}` !== streamKey) {
+              streamKey = `${turn}:${attempt}`;
+              accumulator = new StreamAccumulator();
+            }
+            accumulator.apply(event);
+            setLiveStream({ turn, snapshot: accumulator.snapshot() });
+          },
+        }
+      );
       setDiscussionResult(result);
       setAllLogs(result.logs);
       setCurrentPhase("discussion");
+      await saveRun({ ...run, model: result.model, discussion: result, logs: result.logs });
     } catch (err) {
-      console.error(err);
+      reportError(err);
+      const message = err instanceof Error ? err.message : String(err);
+      const logs = err instanceof AgentRunError ? err.logs : [];
+      setAllLogs(logs);
+      await saveRun({ ...run, model: selectedModel, error: message, logs });
     } finally {
+      setLiveStream(null);
       setIsRunning(false);
     }
   };
 
   const handleExecute = async () => {
-    if (!discussionResult || isRunning) return;
+    if (!discussionResult || isRunning || isReplay) return;
 
     setIsRunning(true);
     setCurrentPhase("execution");
 
     try {
-      const result = await runExecution(discussionResult, {
-        agent: selectedAgent,
-        model: selectedModel,
-        input: input.trim(),
-      });
+      const result = await runExecution(discussionResult, currentRun!.request);
       setExecutionResult(result);
       setAllLogs(result.logs);
+      await saveRun({ ...currentRun!, execution: result, logs: result.logs });
+      const engine = getDefaultWorkflowEngine();
+      await engine.idle();
+      setWorkflows(engine.registered());
     } catch (err) {
-      console.error(err);
+      reportError(err);
+      // e.g. a plan refused for being altered, expired or already executed
+      if (err instanceof AgentRunError) {
+        setAllLogs(err.logs);
+        await saveRun({ ...currentRun!, error: err.message, logs: err.logs });
+      }
     } finally {
       setIsRunning(false);
       setCurrentPhase("execution");
     }
   };
 
+  // Record a decision on one proposed call; edits that fail validation are refused
+  const handleReview = (index: number, decision: Omit<ReviewInput, "reviewer">): string[] => {
+    if (!discussionResult) return [];
+    if (!reviewer.trim()) return ["enter a reviewer name first"];
+    const { call, errors } = reviewToolCall(discussionResult.approvedCalls[index], { ...decision, reviewer: reviewer.trim() });
+    if (errors.length > 0) return errors;
+    const approvedCalls = discussionResult.approvedCalls.map((c, i) => (i === index ? call : c));
+    setDiscussionResult({ ...discussionResult, approvedCalls });
+    return [];
+  };
+
+  // The workflow a plan would create; graph edits approve its createWorkflow call
+  const workflowCall = discussionResult ? findWorkflowCall(discussionResult.approvedCalls) : null;
+  const proposedWorkflow =
+    workflowCall?.workflow ??
+    (discussionResult && validateWorkflowDefinition(discussionResult.result.data).length === 0
+      ? (discussionResult.result.data.workflow as WorkflowInput)
+      : null);
+
+  const handleWorkflowEdit = (workflow: WorkflowInput): string[] => {
+    if (!discussionResult || !workflowCall) return [];
+    if (!reviewer.trim()) return ["enter a reviewer name first"];
+    const { call, errors } = editWorkflowCall(discussionResult.approvedCalls[workflowCall.index], workflow, reviewer.trim());
+    if (errors.length > 0) return errors;
+    const approvedCalls = discussionResult.approvedCalls.map((c, i) => (i === workflowCall.index ? call : c));
+    setDiscussionResult({ ...discussionResult, approvedCalls });
+    return [];
+  };
+
+  const handleApproveAll = () => {
+    if (!discussionResult) return;
+    setDiscussionResult({ ...discussionResult, approvedCalls: approveUndecided(discussionResult.approvedCalls, reviewer.trim()) });
+  };
+
+  // Verify the trail currently shown, a contiguous segment of the chain; the
+  // audit export holds the whole chain so it can be checked from genesis
+  const handleVerifyLogs = () => setChainCheck(verifyAuditLog(allLogs));
+
+  const handleExportLogs = (format: "audit" | "jsonl" | "csv" | "otel") => {
+    const name = currentRun?.id ?? "log";
+    const [content, type, filename] =
+      format === "audit" ? [exportAuditLog(getDefaultAuditLog().entries()), "application/x-ndjson", `audit-${name}.jsonl`]
+      : format === "jsonl" ? [logsToJSONL(allLogs), "application/x-ndjson", `logs-${name}.jsonl`]
+      : format === "csv" ? [logsToCSV(allLogs), "text/csv", `logs-${name}.csv`]
+      : [JSON.stringify(runToOtelTrace(currentRun!), null, 2), "application/json", `trace-${name}.json`];
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([content], { type }));
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const canExecute = !!discussionResult && !executionResult && !isReplay;
+  const executedCount = executionResult?.approvedCalls.filter((c) => c.status === "executed").length ?? 0;
+  const failedCount = executionResult?.approvedCalls.filter((c) => c.status === "failed").length ?? 0;
+  const revertedCount = executionResult?.revertedCalls?.length ?? 0;
+  const rejectedCount = executionResult?.approvedCalls.filter((c) => c.rejection?.reason === "user_rejected").length ?? 0;
+  const undecided = discussionResult?.approvedCalls.filter((c) => !c.review) ?? [];
+  const individualCount = undecided.filter(needsIndividualApproval).length;
+
+  // Re-simulate whenever the plan or a review decision changes
+  useEffect(() => {
+    if (!canExecute || !discussionResult.validationPassed || !currentRun) {
+      setPreview(null);
+      return;
+    }
+    let stale = false;
+    previewExecution(discussionResult, currentRun.request)
+      .then((result) => !stale && setPreview(result))
+      .catch(reportError);
+    return () => {
+      stale = true;
+    };
+  }, [canExecute, discussionResult, currentRun]);
+
+  // A proposal for an existing workflow's name saves a new version: show what it changes
+  useEffect(() => {
+    if (!canExecute || !proposedWorkflow) {
+      setVersionDiff(null);
+      return;
+    }
+    let stale = false;
+    diffAgainstCurrent(proposedWorkflow, getDefaultStore())
+      .then((result) => !stale && setVersionDiff(result))
+      .catch(reportError);
+    return () => {
+      stale = true;
+    };
+  }, [canExecute, proposedWorkflow]);
+
+  const handleCheckOverdue = async () => {
+    const engine = getDefaultWorkflowEngine();
+    try {
+      await engine.checkOverdue();
+    } catch (err) {
+      reportError(err);
+    }
+    setWorkflows(engine.registered());
+  };
+
+  const handleRollback = async (workflowId: string, version: number) => {
+    const engine = getDefaultWorkflowEngine();
+    try {
+      await getDefaultStore().rollbackWorkflow(workflowId, version);
+    } catch (err) {
+      reportError(err);
+    }
+    await engine.idle();
+    setWorkflows(engine.registered());
+  };
+
   const handleReset = () => {
     setDiscussionResult(null);
     setExecutionResult(null);
     setAllLogs([]);
+    setRunError(null);
+    setCurrentRun(null);
+    setIsReplay(false);
     setCurrentPhase(null);
     setInput("");
   };
@@ -115,6 +337,17 @@ const Index = () => {
             onSelectAgent={setSelectedAgent}
             activeModel={selectedModel}
           />
+          <div className="mt-6">
+            <RunHistory runs={history} activeRunId={currentRun?.id ?? null} onOpen={handleOpenRun} />
+          </div>
+          <div className="mt-6">
+            <WorkflowActivity
+              workflows={workflows}
+              runs={workflowRuns}
+              onCheckOverdue={handleCheckOverdue}
+              onRollback={handleRollback}
+            />
+          </div>
         </aside>
 
         {/* Main content */}
@@ -132,13 +365,13 @@ const Index = () => {
                 disabled={isRunning}
               />
               <button
-                onClick={discussionResult && !executionResult ? handleExecute : handleRun}
+                onClick={canExecute ? handleExecute : handleRun}
                 disabled={isRunning || !input.trim()}
                 className="px-6 py-3 rounded-lg bg-primary text-primary-foreground font-mono text-sm font-semibold hover:bg-primary/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all glow-green"
               >
-                {isRunning ? "Running..." : discussionResult && !executionResult ? "▶ Execute" : "⚡ Run"}
+                {isRunning ? "Running..." : canExecute ? "▶ Execute" : "⚡ Run"}
               </button>
-              {(discussionResult || executionResult) && (
+              {(discussionResult || executionResult || runError) && (
                 <button
                   onClick={handleReset}
                   className="px-4 py-3 rounded-lg border border-border bg-card text-muted-foreground font-mono text-sm hover:bg-secondary transition-all"
@@ -161,15 +394,38 @@ const Index = () => {
             </div>
           </div>
 
+          {/* Live stream */}
+          {isRunning && liveStream && <StreamingPanel turn={liveStream.turn} snapshot={liveStream.snapshot} />}
+
+          {isReplay && currentRun && (
+            <div className="p-3 rounded-lg border border-neon-cyan/30 bg-neon-cyan/5">
+              <p className="text-xs text-neon-cyan font-mono">
+                Viewing run {currentRun.id} from {new Date(currentRun.createdAt).toLocaleString("en", { hour12: false })} · read-only
+              </p>
+            </div>
+          )}
+
+          {runError && (
+            <div className="p-4 rounded-lg border border-neon-red/30 bg-neon-red/5">
+              <p className="text-sm text-neon-red font-mono">✗ {runError}. See the audit log for each attempt.</p>
+            </div>
+          )}
+
           {/* Results */}
           {discussionResult && (
             <div className="grid grid-cols-2 gap-6">
               {/* Tool calls */}
               <div className="space-y-4">
+                <ToolCallDisplay
+                  calls={discussionResult.readCalls}
+                  title={`Read During Discussion · ${discussionResult.turns} turns`}
+                  variant="approved"
+                />
                 <ToolCallDisplay
                   calls={discussionResult.approvedCalls}
-                  title="Approved Tool Calls"
+                  title="Proposed Tool Calls"
                   variant="approved"
+                  onReview={canExecute && !isRunning ? handleReview : undefined}
                 />
                 <ToolCallDisplay
                   calls={discussionResult.blockedCalls}
@@ -178,11 +434,22 @@ const Index = () => {
                 />
               </div>
 
-              {/* Structured output */}
-              <StructuredOutput
-                data={discussionResult.result.data}
-                validationPassed={discussionResult.validationPassed}
-              />
+              {/* Workflow graph, structured output and dry-run diff */}
+              <div className="space-y-4">
+                {proposedWorkflow && (
+                  <WorkflowGraph
+                    workflow={proposedWorkflow}
+                    edited={!!workflowCall && !!discussionResult.approvedCalls[workflowCall.index].review?.originalArguments}
+                    onSave={workflowCall && canExecute && !isRunning ? handleWorkflowEdit : undefined}
+                  />
+                )}
+                {versionDiff && canExecute && <WorkflowVersionDiff current={versionDiff.current} diff={versionDiff.diff} />}
+                <StructuredOutput
+                  data={discussionResult.result.data}
+                  validationPassed={discussionResult.validationPassed}
+                />
+                {preview && canExecute && <DiffPreview preview={preview} />}
+              </div>
             </div>
           )}
 
@@ -195,19 +462,45 @@ const Index = () => {
           )}
 
           {/* Execution confirmation */}
-          {discussionResult && !executionResult && !isRunning && (
+          {canExecute && !isRunning && (
             <div className="p-4 rounded-lg border border-neon-amber/30 bg-neon-amber/5">
               <p className="text-sm text-neon-amber font-mono">
-                ⚠ Discussion complete. Review the plan above, then click <strong>▶ Execute</strong> to apply changes.
-                No side effects have occurred yet.
+                ⚠ Discussion complete. Approve, reject or edit each proposed call above, then click <strong>▶ Execute</strong> to
+                apply the approved ones. No side effects have occurred yet.
+                {undecided.length > 0 && ` ${undecided.length} call(s) still undecided will be skipped.`}
+                {individualCount > 0 && ` ${individualCount} of them require explicit approval and must be approved one by one.`}
               </p>
+              <div className="mt-3 flex items-center gap-2 text-xs font-mono">
+                <label htmlFor="reviewer" className="text-muted-foreground">Reviewer</label>
+                <input
+                  id="reviewer"
+                  value={reviewer}
+                  onChange={(e) => setReviewer(e.target.value)}
+                  className="px-2 py-1 rounded border border-border bg-card text-foreground focus:outline-none focus:border-primary/40"
+                />
+                {undecided.length > individualCount && (
+                  <button
+                    onClick={handleApproveAll}
+                    disabled={!reviewer.trim()}
+                    className="px-3 py-1 rounded border border-neon-green/30 text-neon-green hover:bg-neon-green/10 disabled:opacity-40 transition-all"
+                  >
+                    Approve all
+                  </button>
+                )}
+              </div>
             </div>
           )}
 
           {executionResult && (
-            <div className="p-4 rounded-lg border border-neon-green/30 bg-neon-green/5">
-              <p className="text-sm text-neon-green font-mono">
-                ✓ Execution complete. {executionResult.approvedCalls.length} tool calls executed successfully.
+            <div className={cn(
+              "p-4 rounded-lg border",
+              failedCount > 0 ? "border-neon-red/30 bg-neon-red/5" : "border-neon-green/30 bg-neon-green/5"
+            )}>
+              <p className={cn("text-sm font-mono", failedCount > 0 ? "text-neon-red" : "text-neon-green")}>
+                {failedCount > 0
+                  ? `✗ Execution rolled back. ${failedCount} failed; ${revertedCount} executed call(s) reverted — see the audit log.`
+                  : `✓ Execution complete. ${executedCount} tool calls executed successfully.`}
+                {rejectedCount > 0 && ` ${rejectedCount} rejected in review.`}
                 {executionResult.blockedCalls.length > 0 && ` ${executionResult.blockedCalls.length} unsafe calls were blocked.`}
               </p>
             </div>
@@ -215,7 +508,31 @@ const Index = () => {
 
           {/* Logs */}
           <div className="p-4 rounded-lg border border-border bg-card">
-            <h4 className="text-xs font-mono uppercase tracking-widest text-muted-foreground mb-3">Audit Log</h4>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-xs font-mono uppercase tracking-widest text-muted-foreground">Audit Log</h4>
+              {allLogs.length > 0 && (
+                <div className="flex items-center gap-2 text-xs font-mono">
+                  {chainCheck && (
+                    <span className={chainCheck.valid ? "text-neon-green" : "text-neon-red"} title={chainCheck.errors.join("\n")}>
+                      {chainCheck.valid ? `✓ Chain intact (${allLogs.length})` : `✗ ${chainCheck.errors.length} chain error(s)`}
+                    </span>
+                  )}
+                  <button onClick={handleVerifyLogs} className="px-2 py-1 rounded border border-border text-muted-foreground hover:bg-secondary">
+                    Verify
+                  </button>
+                  {(["audit", "jsonl", "csv", "otel"] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportLogs(format)}
+                      disabled={format === "otel" && !currentRun}
+                      className="px-2 py-1 rounded border border-border text-muted-foreground hover:bg-secondary disabled:opacity-40"
+                    >
+                      {format === "otel" ? "OTel" : format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <div className="max-h-72 overflow-y-auto">
               <ExecutionLogs logs={allLogs} />
               <div ref={logsEndRef} />
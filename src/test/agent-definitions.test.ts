@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  AGENT_FILES,
+  POLICY_FILES,
+  loadAgentDefinitions,
+  parseAgentFile,
+  parseAgentSource,
+} from "@/core/agent-definitions";
+import { AGENT_CONFIGS } from "@/core/agent-runtime";
+
+const AGENT = {
+  name: "triage-agent",
+  model: "gpt-5.2",
+  instructions: "Triage incoming tasks.",
+  allowedTools: ["readTask", "updateTask"],
+  outputSchema: "TaskUpdate",
+  permissions: ["read:tasks", "write:tasks[project=design]"],
+};
+
+describe("bundled agent files", () => {
+  it("load at startup with their policy files", () => {
+    expect(Object.keys(AGENT_FILES).sort()).toEqual([
+      "agents/readonly-agent.json",
+      "agents/task-agent.yaml",
+      "agents/workflow-agent.yaml",
+    ]);
+    const workflowAgent = AGENT_CONFIGS.find((c) => c.name === "workflow-agent")!;
+    expect(workflowAgent).toMatchObject({
+      model: "claude-opus-4.6",
+      instructions: "Create and manage automation workflows safely for Onebeam apps. Always produce structured workflow definitions.",
+      allowedTools: ["readTask", "createWorkflow", "listTasks"],
+      providerPolicy: { fallbackModels: ["gpt-5.2"] },
+      schemaRepairAttempts: 2,
+    });
+    expect(workflowAgent.policies?.map((p) => p.id)).toEqual(["no-wildcard-trigger", "no-every-minute-schedule"]);
+    expect(AGENT_CONFIGS.find((c) => c.name === "readonly-agent")!.policies).toBeUndefined();
+  });
+
+  it("keep their declared order, not the files' alphabetical one", () => {
+    expect(AGENT_CONFIGS.map((c) => c.name)).toEqual(["workflow-agent", "task-agent", "readonly-agent"]);
+  });
+});
+
+describe("parseAgentSource", () => {
+  it("reads YAML and JSON, pointing syntax errors at the file and line", () => {
+    expect(parseAgentSource("name: a\nallowedTools: [readTask]\n", "agents/a.yaml")).toEqual({ name: "a", allowedTools: ["readTask"] });
+    expect(() => parseAgentSource("name: a\nname: b\n", "agents/a.yml")).toThrow(
+      "Invalid agent file agents/a.yml: line 2, column 1: Map keys must be unique"
+    );
+    expect(() => parseAgentSource('{ "name": ', "agents/a.json")).toThrow(/^Invalid agent file agents\/a\.json: /);
+  });
+});
+
+describe("parseAgentFile", () => {
+  it("accepts a valid definition", () => {
+    expect(parseAgentFile(AGENT, "agents/triage.yaml")).toEqual(AGENT);
+  });
+
+  it("reports schema problems by field", () => {
+    expect(() => parseAgentFile({ ...AGENT, model: "gpt-4", maxTurns: 0, tools: [] }, "agents/triage.yaml")).toThrow(
+      "Invalid agent file agents/triage.yaml: $.model: must be one of [gpt-5.2, claude-opus-4.6, gemini-3, scripted]; " +
+        "$.maxTurns: must be >= 1, got 0; $.tools: unexpected property"
+    );
+  });
+
+  it("checks tools, output schema and permissions against the registries", () => {
+    const bad = {
+      ...AGENT,
+      allowedTools: ["readTask", "deleteDatabase", "createWorkflow"],
+      outputSchema: "TaskReport",
+      permissions: ["read:tasks", "admin:everything"],
+    };
+    expect(() => parseAgentFile(bad, "agents/triage.yaml")).toThrow(
+      "Invalid agent file agents/triage.yaml: " +
+        '$.permissions[1]: Invalid permission "admin:everything": expected action:resource[key=value,...]; ' +
+        '$.allowedTools[1]: unknown tool "deleteDatabase"; ' +
+        "$.allowedTools[2]: createWorkflow requires write:workflows, not granted in $.permissions; " +
+        '$.outputSchema: unknown output schema "TaskReport" (available: WorkflowDefinition, TaskUpdate, TaskList)'
+    );
+  });
+
+  it("resolves the policy file and reports its problems under $.policyFile", () => {
+    const withPolicies = parseAgentFile({ ...AGENT, policyFile: "policies/task-agent.json" }, "agents/triage.yaml", POLICY_FILES);
+    expect(withPolicies.policies?.length).toBeGreaterThan(0);
+    expect(withPolicies).not.toHaveProperty("policyFile");
+
+    expect(() => parseAgentFile({ ...AGENT, policyFile: "policies/triage.json" }, "agents/triage.yaml", POLICY_FILES)).toThrow(
+      'Invalid agent file agents/triage.yaml: $.policyFile: no policy file "policies/triage.json"'
+    );
+    expect(() =>
+      parseAgentFile({ ...AGENT, policyFile: "policies/bad.json" }, "agents/triage.yaml", { "policies/bad.json": { rules: [] } })
+    ).toThrow(/^Invalid agent file agents\/triage\.yaml: \$\.policyFile: Invalid policy file policies\/bad\.json: /);
+  });
+});
+
+describe("loadAgentDefinitions", () => {
+  it("sorts agents by order, putting those without one last", () => {
+    const files = {
+      "agents/a.json": JSON.stringify({ ...AGENT, name: "a" }),
+      "agents/b.json": JSON.stringify({ ...AGENT, name: "b", order: 2 }),
+      "agents/c.json": JSON.stringify({ ...AGENT, name: "c", order: 1 }),
+    };
+    expect(loadAgentDefinitions(files).map((a) => a.name)).toEqual(["c", "b", "a"]);
+  });
+
+  it("reports every broken file and duplicate names together", () => {
+    const files = {
+      "agents/a.json": JSON.stringify(AGENT),
+      "agents/b.json": JSON.stringify(AGENT),
+      "agents/c.yaml": "name: c\nmodel: [",
+    };
+    const error = (() => {
+      try {
+        loadAgentDefinitions(files);
+      } catch (err) {
+        return (err as Error).message;
+      }
+    })();
+    expect(error?.split("\n")).toEqual([
+      'Invalid agent file agents/b.json: $.name: agent "triage-agent" is already defined in agents/a.json',
+      expect.stringMatching(/^Invalid agent file agents\/c\.yaml: line \d+, column \d+: /),
+    ]);
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { runDiscussion } from "@/core/agent-runtime";
+import { getProvider, registerProvider } from "@/core/providers";
+import { ScriptedProvider } from "@/core/scripted-provider";
+import demoScript from "@/core/demo-script.json";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+import type { ConversationMessage, GenerateOptions, ToolCall } from "@/core/types";
+
+function stubModel(toolCalls: ToolCall[], data: Record<string, unknown>) {
+  vi.spyOn(getProvider("gpt-5.2"), "generateStructuredOutput").mockResolvedValue({
+    success: true,
+    data,
+    toolCalls,
+  });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("runDiscussion tool gates", () => {
+  it("rejects calls whose arguments fail the parameters schema", async () => {
+    stubModel(
+      [
+        { toolName: "updateTask", arguments: { taskId: "task-001", updates: { status: "deleted" } }, status: "pending" },
+        { toolName: "updateTask", arguments: { taskId: "task-001", updates: { status: "done" } }, status: "pending" },
+      ],
+      { taskId: "task-001", updates: { status: "done" } }
+    );
+
+    const result = await runDiscussion({ agent: "task-agent", model: "gpt-5.2", input: "close task-001" });
+
+    expect(result.approvedCalls).toHaveLength(1);
+    expect(result.blockedCalls).toHaveLength(1);
+    expect(result.blockedCalls[0].rejection?.reason).toBe("invalid_arguments");
+
+    const argLogs = result.logs.filter((l) => l.type === "validation" && l.message.includes("Arguments for updateTask"));
+    expect(argLogs.map((l) => l.message)).toEqual([
+      "✗ Arguments for updateTask failed validation: $.updates.status: must be one of [open, in-progress, urgent, done]",
+      "✓ Arguments for updateTask match parameters schema",
+    ]);
+  });
+
+  it("rejects task updates with fields the schema does not list", async () => {
+    stubModel(
+      [
+        {
+          toolName: "updateTask",
+          arguments: { taskId: "task-001", updates: { title: "pwned", dueDate: "garbage", foo: 1 } },
+          status: "pending",
+        },
+        { toolName: "updateTask", arguments: { taskId: "task-001", updates: { dueDate: "2026-02-01T17:00:00.000Z" } }, status: "pending" },
+      ],
+      { taskId: "task-001", updates: { dueDate: "2026-02-01T17:00:00.000Z" } }
+    );
+
+    const result = await runDiscussion({ agent: "task-agent", model: "gpt-5.2", input: "reschedule task-001" });
+
+    expect(result.approvedCalls).toHaveLength(1);
+    expect(result.blockedCalls[0].rejection?.reason).toBe("invalid_arguments");
+    const failure = result.logs.find((l) => l.message.startsWith("✗ Arguments for updateTask"))!.message;
+    expect(failure).toContain("$.updates.dueDate: must be a valid date-time");
+    expect(failure).toContain("$.updates.title");
+    expect(failure).toContain("$.updates.foo");
+  });
+
+  it("checks access before arguments", async () => {
+    stubModel([{ toolName: "deleteDatabase", arguments: {}, status: "pending" }], { taskId: "t", updates: {} });
+
+    const result = await runDiscussion({ agent: "task-agent", model: "gpt-5.2", input: "drop everything" });
+
+    expect(result.blockedCalls[0].rejection?.reason).toBe("access_denied");
+    expect(result.logs.some((l) => l.message.includes("Arguments for deleteDatabase"))).toBe(false);
+  });
+});
+
+describe("runDiscussion agentic loop", () => {
+  it("answers read-only calls and feeds results back until a final output", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const seen: ConversationMessage[][] = [];
+    vi.spyOn(getProvider("gemini-3"), "generateStructuredOutput").mockImplementation(async (options: GenerateOptions) => {
+      seen.push([...options.messages!]);
+      const answered = options.messages!.find((m) => m.role === "tool");
+      if (!answered) {
+        return { success: true, data: {}, toolCalls: [{ id: "c1", toolName: "listTasks", arguments: {}, status: "pending" }] };
+      }
+      const tasks = (answered.role === "tool" ? answered.result.data : []) as unknown[];
+      return { success: true, data: { tasks }, toolCalls: [] };
+    });
+
+    const result = await runDiscussion({ agent: "readonly-agent", model: "gemini-3", input: "list tasks" }, { store });
+
+    expect(result.turns).toBe(2);
+    expect(result.readCalls.map((c) => c.status)).toEqual(["executed"]);
+    expect(result.approvedCalls).toEqual([]);
+    expect(seen[1].map((m) => m.role)).toEqual(["user", "assistant", "tool"]);
+    expect((result.result.data.tasks as unknown[]).length).toBe(3);
+    expect(result.validationPassed).toBe(true);
+  });
+
+  it("sends reasoning back only as the vendor's native blocks", async () => {
+    const nativeReasoning = { vendor: "anthropic" as const, blocks: [{ type: "thinking", thinking: "Check first.", signature: "sig" }] };
+    const seen: ConversationMessage[][] = [];
+    vi.spyOn(getProvider("claude-opus-4.6"), "generateStructuredOutput").mockImplementation(async (options: GenerateOptions) => {
+      seen.push([...options.messages!]);
+      return seen.length === 1
+        ? { success: true, data: {}, reasoning: "Check first.", nativeReasoning, toolCalls: [{ id: "c1", toolName: "listTasks", arguments: {}, status: "pending" }] }
+        : { success: true, data: { workflow: { name: "W", trigger: { type: "manual" }, steps: [] } }, toolCalls: [] };
+    });
+
+    await runDiscussion({ agent: "workflow-agent", model: "claude-opus-4.6", input: "plan" });
+
+    expect(seen[1][1]).toEqual({ role: "assistant", content: undefined, toolCalls: [expect.objectContaining({ id: "c1" })], nativeReasoning });
+  });
+
+  it("stops at maxTurns and keeps unanswered reads as proposals", async () => {
+    vi.spyOn(getProvider("gemini-3"), "generateStructuredOutput").mockImplementation(async () => ({
+      success: true,
+      data: { tasks: [] },
+      toolCalls: [{ id: "again", toolName: "readTask", arguments: { taskId: "task-001" }, status: "pending" }],
+    }));
+
+    const result = await runDiscussion({ agent: "readonly-agent", model: "gemini-3", input: "loop forever" });
+
+    expect(result.turns).toBe(5);
+    expect(result.readCalls).toHaveLength(4);
+    expect(result.approvedCalls).toHaveLength(1);
+    expect(result.logs.some((l) => l.type === "error" && l.message.startsWith("Reached max turns (5)"))).toBe(true);
+  });
+});
+
+describe("runDiscussion with a scripted model", () => {
+  const demo = getProvider("scripted");
+  afterEach(() => registerProvider(demo));
+
+  it("plays back a multi-turn script deterministically", async () => {
+    registerProvider(
+      new ScriptedProvider({
+        entries: [
+          {
+            match: "close",
+            turns: [
+              { toolCalls: [{ toolName: "readTask", arguments: { taskId: "task-002" } }] },
+              {
+                reasoning: "Closing task-002.",
+                toolCalls: [{ toolName: "updateTask", arguments: { taskId: "task-002", updates: { status: "done" } } }],
+                data: { taskId: "task-002", updates: { status: "done" } },
+              },
+            ],
+          },
+        ],
+      })
+    );
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+
+    const result = await runDiscussion({ agent: "task-agent", model: "scripted", input: "Close task-002" }, { store });
+
+    expect(result.turns).toBe(2);
+    expect(result.readCalls.map((c) => [c.id, c.status])).toEqual([["scripted_1_0", "executed"]]);
+    expect(result.approvedCalls.map((c) => [c.id, c.toolName])).toEqual([["scripted_2_0", "updateTask"]]);
+    expect(result.validationPassed).toBe(true);
+  });
+
+  it("drives the demo prompts through every agent gate", async () => {
+    registerProvider(new ScriptedProvider(demoScript));
+
+    const safety = await runDiscussion({ agent: "task-agent", model: "scripted", input: "Try to delete the database" });
+    expect(safety.blockedCalls.map((c) => c.rejection?.reason)).toEqual(["access_denied"]);
+
+    const listing = await runDiscussion({ agent: "readonly-agent", model: "scripted", input: "List all current tasks" });
+    expect(listing.readCalls.map((c) => c.toolName)).toEqual(["listTasks"]);
+    expect(listing.validationPassed).toBe(true);
+  });
+});
+
+describe("runDiscussion schema repair", () => {
+  const demo = getProvider("scripted");
+  afterEach(() => registerProvider(demo));
+
+  const WORKFLOW = { name: "Escalate", trigger: { type: "event", event: "task.overdue" }, steps: [{ type: "update" }] };
+
+  it("sends validation errors back and accepts the corrected output", async () => {
+    const provider = new ScriptedProvider({
+      entries: [
+        {
+          turns: [
+            {
+              toolCalls: [{ toolName: "createWorkflow", arguments: { workflow: WORKFLOW } }],
+              data: { workflow: { name: "Escalate", steps: [] } },
+            },
+            { data: { workflow: WORKFLOW } },
+          ],
+        },
+      ],
+    });
+    registerProvider(provider);
+    const generate = vi.spyOn(provider, "generateStructuredOutput");
+
+    const result = await runDiscussion({ agent: "workflow-agent", model: "scripted", input: "escalate overdue" });
+
+    expect(result.validationPassed).toBe(true);
+    expect(result.result.data).toEqual({ workflow: WORKFLOW });
+    expect(result.approvedCalls.map((c) => c.toolName)).toEqual(["createWorkflow"]);
+
+    const repairMessages = generate.mock.calls[1][0].messages!;
+    expect(repairMessages.map((m) => m.role)).toEqual(["user", "assistant", "tool", "user"]);
+    expect(repairMessages.at(-1)).toMatchObject({ content: expect.stringContaining("- $.workflow.trigger: required field missing") });
+    expect(result.logs.map((l) => l.message)).toContain("Schema repair succeeded after 1 attempt(s)");
+  });
+
+  it("gives up after the configured number of attempts", async () => {
+    registerProvider(new ScriptedProvider({ entries: [{ turns: [{ data: { workflow: {} } }] }] }));
+
+    const result = await runDiscussion({ agent: "workflow-agent", model: "scripted", input: "anything" });
+
+    expect(result.validationPassed).toBe(false);
+    const repairLogs = result.logs.filter((l) => l.message.includes("Schema repair"));
+    expect(repairLogs.map((l) => l.type)).toEqual(["validation", "validation", "error"]);
+    expect(repairLogs.at(-1)?.message).toBe("Schema repair gave up after 2 attempt(s); output still fails validation");
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { AuditLog, GENESIS_HASH, exportAuditLog, verifyAuditExport, verifyAuditLog } from "@/core/audit-log";
+import { sha256Hex } from "@/core/sha256";
+import type { LogEntry } from "@/core/types";
+
+function sampleLog(count = 4): AuditLog {
+  const log = new AuditLog();
+  for (let i = 1; i <= count; i++) {
+    log.append({
+      timestamp: new Date(Date.UTC(2026, 0, 1, 12, 0, i)),
+      phase: "discussion",
+      model: "scripted",
+      agent: "task-agent",
+      type: "plan",
+      message: `step ${i}`,
+      data: { step: i },
+    });
+  }
+  return log;
+}
+
+describe("sha256Hex", () => {
+  it("matches the FIPS 180-4 test vectors", () => {
+    expect(sha256Hex("")).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+    expect(sha256Hex("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    expect(sha256Hex("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq")).toBe(
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1"
+    );
+  });
+});
+
+describe("AuditLog", () => {
+  it("chains each entry to the previous hash", () => {
+    const entries = sampleLog().entries();
+    expect(entries[0]).toMatchObject({ id: "log-1", seq: 1, prevHash: GENESIS_HASH });
+    expect(entries[1].prevHash).toBe(entries[0].hash);
+    expect(verifyAuditLog(entries, { fromGenesis: true })).toEqual({ valid: true, errors: [] });
+  });
+
+  it("snapshots data so later mutation does not change the record", () => {
+    const log = new AuditLog();
+    const call = { toolName: "updateTask", status: "approved" };
+    log.append({ timestamp: new Date(), phase: "discussion", model: "scripted", agent: "a", type: "tool_call", message: "m", data: call });
+    call.status = "executed";
+    expect(log.entries()[0].data).toEqual({ toolName: "updateTask", status: "approved" });
+    expect(verifyAuditLog(log.entries()).valid).toBe(true);
+  });
+
+  it("detects modified, reordered and deleted entries", () => {
+    const entries = sampleLog().entries();
+
+    const modified = entries.map((e, i) => (i === 1 ? { ...e, message: "nothing to see" } : e));
+    expect(verifyAuditLog(modified).errors).toEqual(["entry 2 (log-2): hash mismatch — entry was modified"]);
+
+    const reordered = [entries[0], entries[2], entries[1], entries[3]];
+    expect(verifyAuditLog(reordered).valid).toBe(false);
+
+    const deleted = [entries[0], entries[2], entries[3]];
+    expect(verifyAuditLog(deleted).errors).toEqual([
+      "entry 2 (log-3): prevHash does not match log-1 — entries were reordered, inserted or deleted",
+      "entry 2 (log-3): expected seq 2, got 3",
+    ]);
+
+    const truncated = entries.slice(0, 3);
+    expect(verifyAuditLog(truncated).valid).toBe(true);
+    expect(verifyAuditLog(truncated, { expectedHead: entries[3].hash }).valid).toBe(false);
+  });
+
+  it("accepts a contiguous segment that starts mid-chain", () => {
+    const entries = sampleLog().entries();
+    expect(verifyAuditLog(entries.slice(1)).valid).toBe(true);
+    expect(verifyAuditLog(entries.slice(1), { fromGenesis: true }).valid).toBe(false);
+  });
+});
+
+describe("audit log export", () => {
+  it("re-verifies offline from the exported text", () => {
+    const text = exportAuditLog(sampleLog().entries(), new Date("2026-02-01T00:00:00Z"));
+    const result = verifyAuditExport(text);
+    expect(result.valid).toBe(true);
+    expect(result.entries).toHaveLength(4);
+    expect(result.entries[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it("detects tampering in the exported file", () => {
+    const lines = exportAuditLog(sampleLog().entries()).trim().split("\n");
+
+    const edited = lines.map((line, i) => (i === 2 ? line.replace("step 2", "step 9") : line)).join("\n");
+    expect(verifyAuditExport(edited).errors).toContain("entry 2 (log-2): hash mismatch — entry was modified");
+
+    // Entries cut from the start break the chain from genesis, whatever the header says
+    const firstRemoved = [lines[0], ...lines.slice(2)].join("\n");
+    expect(verifyAuditExport(firstRemoved).errors).toEqual(["entry 1 (log-2): chain does not start at genesis"]);
+
+    const entry = JSON.parse(lines[1]) as LogEntry;
+    expect(verifyAuditExport(JSON.stringify(entry)).errors).toEqual(["not an onebeam audit log export"]);
+  });
+
+  it("detects entries cut from the end only against a head hash recorded elsewhere", () => {
+    const log = sampleLog();
+    const recordedHead = log.headHash();
+    const entries = log.entries().slice(0, -1);
+    // A rewritten header matches the shortened file, so it proves nothing
+    const truncated = exportAuditLog(entries);
+
+    expect(verifyAuditExport(truncated).valid).toBe(true);
+    expect(verifyAuditExport(truncated, { expectedHead: recordedHead }).errors).toEqual([
+      `head hash mismatch — expected ${recordedHead}; entries were removed from the end`,
+    ]);
+    expect(verifyAuditExport(exportAuditLog(log.entries()), { expectedHead: recordedHead }).valid).toBe(true);
+  });
+});
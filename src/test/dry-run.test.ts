@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { describeDiff, dryRunToolCalls } from "@/core/dry-run";
+import { previewExecution, type AgentRunResult } from "@/core/agent-runtime";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+import { reviewToolCall } from "@/core/tool-review";
+import type { ToolCall } from "@/core/types";
+import { call } from "./helpers";
+
+const WORKFLOW = {
+  name: "Overdue Task Handler",
+  trigger: { type: "event", event: "task.overdue" },
+  steps: [{ type: "update", entity: "task", update: { priority: "critical" } }],
+};
+
+describe("dry run", () => {
+  it("diffs the simulated store without writing to the real one", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+
+    const preview = await dryRunToolCalls(
+      [
+        call("updateTask", { taskId: "task-001", updates: { status: "in-progress" } }),
+        call("createWorkflow", { workflow: WORKFLOW }),
+        call("readTask", { taskId: "task-002" }),
+      ],
+      store
+    );
+
+    expect(preview.diffs.map(describeDiff)).toEqual([
+      "task-001 status: open → in-progress",
+      'new workflow "Overdue Task Handler"',
+    ]);
+    expect(preview.diffs[1].fields.map((f) => f.field)).toEqual(["name", "trigger", "steps"]);
+    expect((await store.getTask("task-001"))?.status).toBe("open");
+    expect(await store.listWorkflows()).toEqual([]);
+  });
+
+  it("reports calls that would fail and skips no-op updates", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+
+    const preview = await dryRunToolCalls(
+      [
+        call("updateTask", { taskId: "task-003", updates: { priority: "medium" } }),
+        call("readTask", { taskId: "task-404" }),
+      ],
+      store
+    );
+
+    expect(preview.diffs).toEqual([]);
+    expect(preview.calls.map((c) => c.outcome.success)).toEqual([true, false]);
+  });
+
+  it("rolls back every change once a call fails, as execution does", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+
+    const preview = await dryRunToolCalls(
+      [
+        call("updateTask", { taskId: "task-001", updates: { status: "done" } }),
+        call("updateTask", { taskId: "task-404", updates: { status: "done" } }),
+        call("createWorkflow", { workflow: WORKFLOW }),
+      ],
+      store
+    );
+
+    expect(preview.rolledBack).toBe(true);
+    expect(preview.diffs).toEqual([]);
+    expect(preview.calls.map((c) => c.outcome.success)).toEqual([true, false]);
+  });
+
+  it("previews only approved calls, through the execution gates", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const approve = (c: ToolCall) => reviewToolCall(c, { decision: "approved", reviewer: "dana" }).call;
+    const rejected = reviewToolCall(
+      call("updateTask", { taskId: "task-002", updates: { assignee: "carol" } }),
+      { decision: "rejected", reviewer: "dana" }
+    ).call;
+    const undecided = call("updateTask", { taskId: "task-001", updates: { status: "done" } });
+    const denied = approve(call("updateTask", { taskId: "task-002", updates: { priority: "critical" } }));
+    const discussion = {
+      approvedCalls: [rejected, undecided, denied, approve(call("updateTask", { taskId: "task-003", updates: { priority: "low" } }))],
+    } as AgentRunResult;
+
+    const preview = await previewExecution(discussion, { agent: "task-agent", input: "" }, { store });
+
+    expect(preview.diffs.map(describeDiff)).toEqual(["task-003 priority: medium → low"]);
+    expect(preview.blocked.map((b) => b.rejection.reason)).toEqual(["policy_denied"]);
+    expect(denied.policy).toBeUndefined();
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+import { compensateToolCall, executeToolCall, registerToolExecutor } from "@/core/executors";
+import { runExecution } from "@/core/agent-runtime";
+import { approveUndecided } from "@/core/tool-review";
+import { WorkflowEngine, type WorkflowNotification } from "@/core/workflow-engine";
+import { ManualClock } from "@/core/schedule";
+import type { ToolCall } from "@/core/types";
+import { call, discussionWith } from "./helpers";
+
+describe("tool executors", () => {
+  it("reads and lists tasks from the store", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+
+    const read = await executeToolCall(call("readTask", { taskId: "task-002" }), store);
+    expect(read.success).toBe(true);
+    expect(read.data).toMatchObject({ id: "task-002", priority: "critical" });
+
+    const list = await executeToolCall(call("listTasks", { filter: { assignee: "alice" } }), store);
+    expect((list.data as unknown[]).length).toBe(2);
+  });
+
+  it("applies updates to the store", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const result = await executeToolCall(
+      call("updateTask", { taskId: "task-001", updates: { status: "in-progress" } }),
+      store
+    );
+    expect(result.success).toBe(true);
+    expect((await store.getTask("task-001"))?.status).toBe("in-progress");
+    // Seed data is never mutated
+    expect(SEED_TASKS[0].status).toBe("open");
+  });
+
+  it("reports failures instead of throwing", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const missing = await executeToolCall(call("updateTask", { taskId: "task-999", updates: {} }), store);
+    expect(missing).toEqual({ success: false, message: "Task not found: task-999" });
+
+    const unknown = await executeToolCall(call("deleteDatabase", {}), store);
+    expect(unknown.success).toBe(false);
+  });
+
+  it("saves a workflow with an existing name as a new version", async () => {
+    const store = new InMemoryDataStore();
+    const workflow = { name: "Escalate", trigger: { type: "event", event: "task.overdue" }, steps: [{ type: "update" }] };
+    expect((await executeToolCall(call("createWorkflow", { workflow }), store)).message).toBe('Created workflow "Escalate" (wf-001)');
+    expect((await executeToolCall(call("createWorkflow", { workflow }), store)).message).toBe(
+      'Saved workflow "Escalate" as version 2 (wf-001)'
+    );
+    expect((await store.listWorkflows()).map((w) => [w.id, w.version])).toEqual([["wf-001", 2]]);
+  });
+});
+
+describe("compensation", () => {
+  it("restores an updated task, clearing fields the update added", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const update = call("updateTask", { taskId: "task-003", updates: { status: "done", dueDate: "2026-02-01T00:00:00.000Z" } });
+    update.result = await executeToolCall(update, store);
+
+    expect(await compensateToolCall(update, store)).toEqual({ success: true, message: "Restored task task-003" });
+    expect(await store.getTask("task-003")).toStrictEqual(SEED_TASKS[2]);
+  });
+
+  it("deletes a created workflow", async () => {
+    const store = new InMemoryDataStore();
+    const create = call("createWorkflow", { workflow: { name: "Escalate", trigger: { type: "event", event: "task.overdue" }, steps: [{ type: "update" }] } });
+    create.result = await executeToolCall(create, store);
+
+    expect((await compensateToolCall(create, store)).success).toBe(true);
+    expect(await store.listWorkflows()).toEqual([]);
+  });
+
+  it("restores the previous version of a re-saved workflow", async () => {
+    const store = new InMemoryDataStore();
+    const trigger = { type: "event", event: "task.overdue" };
+    await store.createWorkflow({ name: "Escalate", trigger: { type: "event", event: "task.overdue" }, steps: [{ type: "update" }] });
+    const resave = call("createWorkflow", { workflow: { name: "Escalate", trigger, steps: [{ type: "notify" }] } });
+    resave.result = await executeToolCall(resave, store);
+
+    expect(await compensateToolCall(resave, store)).toEqual({
+      success: true,
+      message: 'Restored workflow "Escalate" to version 1 as version 3 (wf-001)',
+    });
+    expect(await store.listWorkflows()).toMatchObject([{ version: 3, restoredFrom: 1, steps: [{ type: "update" }] }]);
+  });
+
+  it("refuses to undo write tools registered without a compensation", async () => {
+    registerToolExecutor("archiveTask", async () => ({ success: true, message: "Archived" }));
+    const archive = call("archiveTask", { taskId: "task-001" });
+    archive.result = await executeToolCall(archive, new InMemoryDataStore());
+
+    expect(await compensateToolCall(archive, new InMemoryDataStore())).toEqual({
+      success: false,
+      message: 'No compensation registered for tool "archiveTask"',
+    });
+    expect((await compensateToolCall(call("readTask", { taskId: "task-001" }), new InMemoryDataStore())).success).toBe(true);
+  });
+});
+
+describe("runExecution", () => {
+  it("marks each call executed when every call succeeds", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const approvedCalls = approveUndecided([
+      call("updateTask", { taskId: "task-003", updates: { priority: "high" } }),
+      call("readTask", { taskId: "task-003" }),
+    ], "reviewer");
+
+    const result = await runExecution(discussionWith(approvedCalls), { agent: "task-agent", input: "" }, { store });
+
+    expect(result.approvedCalls.map((c) => c.status)).toEqual(["executed", "executed"]);
+    expect(result.revertedCalls).toEqual([]);
+    expect((await store.getTask("task-003"))?.priority).toBe("high");
+    expect(result.logs.at(-1)?.message).toBe("Execution complete. 2 tool calls executed, 0 failed.");
+  });
+
+  it("rolls back earlier calls in reverse order when a call fails", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const approvedCalls = approveUndecided([
+      call("updateTask", { taskId: "task-003", updates: { priority: "high" } }),
+      call("updateTask", { taskId: "task-001", updates: { status: "in-progress" } }),
+      call("readTask", { taskId: "task-404" }),
+      call("updateTask", { taskId: "task-002", updates: { status: "done" } }),
+    ], "reviewer");
+
+    const result = await runExecution(discussionWith(approvedCalls), { agent: "task-agent", input: "" }, { store });
+
+    expect(result.approvedCalls.map((c) => c.status)).toEqual(["reverted", "reverted", "failed", "approved"]);
+    expect(result.revertedCalls!.map((c) => c.arguments.taskId)).toEqual(["task-001", "task-003"]);
+    expect(await store.listTasks()).toEqual(SEED_TASKS);
+    expect(result.logs.filter((l) => l.message.startsWith("Reverted:")).map((l) => l.message)).toEqual([
+      "Reverted: updateTask — Restored task task-001",
+      "Reverted: updateTask — Restored task task-003",
+    ]);
+    expect(result.logs.at(-1)?.message).toBe(
+      "Execution rolled back. 1 failed, 2 of 2 executed call(s) reverted, 1 not attempted."
+    );
+  });
+
+  it("publishes the run's store events to workflows only once it commits", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const notifications: WorkflowNotification[] = [];
+    const engine = new WorkflowEngine({ store, clock: new ManualClock("2026-01-12T09:00:00Z"), onNotify: (n) => notifications.push(n) });
+    await engine.start();
+    await store.createWorkflow({
+      name: "Announce updates",
+      trigger: { type: "event", event: "task.updated" },
+      steps: [{ type: "notify", update: { message: "Task updated" } }],
+    });
+    await engine.idle();
+    const update = call("updateTask", { taskId: "task-003", updates: { dueDate: "2026-02-01T00:00:00.000Z" } });
+
+    // Rolled back: neither the update nor its compensation reaches the engine
+    const rolledBack = approveUndecided([update, call("readTask", { taskId: "task-404" })], "reviewer");
+    await runExecution(discussionWith(rolledBack), { agent: "task-agent", input: "" }, { store });
+    await engine.idle();
+    expect(engine.runs()).toEqual([]);
+
+    await runExecution(discussionWith(approveUndecided([update], "reviewer")), { agent: "task-agent", input: "" }, { store });
+    await engine.idle();
+    expect(notifications.map((n) => [n.taskId, n.message])).toEqual([["task-003", "Task updated"]]);
+    engine.stop();
+  });
+
+  it("still publishes other writers' events when a held run rolls back", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const events: string[] = [];
+    store.subscribe((e) => events.push(`${e.type} ${"task" in e ? e.task.id : ""}`));
+    // Pause the run on its failing read so another writer can write meanwhile
+    let paused!: () => void;
+    let resume!: () => void;
+    const reached = new Promise<void>((resolve) => (paused = resolve));
+    const gate = new Promise<void>((resolve) => (resume = resolve));
+    const getTask = store.getTask.bind(store);
+    store.getTask = async (id) => {
+      if (id === "task-404") {
+        paused();
+        await gate;
+      }
+      return getTask(id);
+    };
+    const approvedCalls = approveUndecided([
+      call("updateTask", { taskId: "task-003", updates: { priority: "high" } }),
+      call("readTask", { taskId: "task-404" }),
+    ], "reviewer");
+
+    const run = runExecution(discussionWith(approvedCalls), { agent: "task-agent", input: "" }, { store });
+    await reached;
+    await store.createTask({ title: "Filed by someone else", status: "open", priority: "low" });
+    resume();
+    const result = await run;
+
+    expect(result.revertedCalls).toHaveLength(1);
+    expect(events).toEqual(["task.created task-004"]);
+  });
+});
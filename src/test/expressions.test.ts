@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateExpression,
+  evaluateWorkflowCondition,
+  parseExpression,
+  validateCondition,
+} from "@/core/expressions";
+import { OUTPUT_SCHEMAS, validateToolArguments } from "@/core/tools";
+import { validateAgainstSchema } from "@/core/schema-validator";
+import { SEED_TASKS } from "@/core/store";
+
+const NOW = new Date("2026-01-12T09:00:00Z");
+const evaluate = (source: string, task: object) => evaluateWorkflowCondition(source, { variables: { task }, now: NOW });
+
+describe("condition expressions", () => {
+  it("parses with the usual precedence", () => {
+    expect(parseExpression('!a.b || c == 1 && d in ["x"]')).toMatchObject({
+      kind: "binary",
+      op: "||",
+      left: { kind: "not", operand: { kind: "path", segments: ["a", "b"] } },
+      right: {
+        kind: "binary",
+        op: "&&",
+        left: { kind: "binary", op: "==", right: { kind: "literal", value: 1 } },
+        right: { kind: "binary", op: "in", right: { kind: "array" } },
+      },
+    });
+  });
+
+  it("reports syntax errors with their position", () => {
+    expect(validateCondition("task.priority ==")).toEqual(["at 16: unexpected end of expression"]);
+    expect(validateCondition('task.title == "open')).toEqual(["at 14: unterminated string"]);
+    expect(validateCondition("task.status = 'done'")).toEqual(['at 12: unexpected character "="']);
+    expect(validateCondition("(task.status == 'done'")).toEqual(['at 22: expected ")"']);
+  });
+
+  it("type-checks against the Task schema", () => {
+    expect(validateCondition('task.dueDate < now() && task.priority in ["high", "critical"]')).toEqual([]);
+    expect(validateCondition("task.assignee == null || task.project != 'design'")).toEqual([]);
+
+    expect(validateCondition("task.priorty == 'high'")).toEqual(['at 0: task has no field "priorty"']);
+    expect(validateCondition("task.priority == 'urgent'")).toEqual(['at 17: "urgent" is not one of [low, medium, high, critical]']);
+    expect(validateCondition("task.dueDate < 5")).toEqual([
+      'at 13: "<" compares two numbers or two datetimes, got datetime and number',
+    ]);
+    expect(validateCondition("task.title")).toEqual(["at 0: condition must be boolean, got string"]);
+    expect(validateCondition("user.name == 'x'")).toEqual(['at 0: unknown variable "user" (available: task, event)']);
+    expect(validateCondition("eval('1') == 1")).toEqual(['at 0: unknown function "eval" (available: now, date)']);
+    expect(validateCondition("task.dueDate > date('soon')")).toEqual(['at 20: "soon" is not a valid date']);
+  });
+
+  it("evaluates against a task", () => {
+    const [onboarding, auth, darkMode] = SEED_TASKS;
+    const overdueAndUrgent = 'task.dueDate < now() && task.priority in ["high", "critical"]';
+
+    expect(evaluate(overdueAndUrgent, auth)).toBe(true); // due 2026-01-10
+    expect(evaluate(overdueAndUrgent, onboarding)).toBe(false); // due 2026-01-15
+    expect(evaluate(overdueAndUrgent, darkMode)).toBe(false); // no due date
+    expect(evaluate("task.dueDate == null", darkMode)).toBe(true);
+    expect(evaluate("task.dueDate >= date('2026-01-15T17:00:00Z')", onboarding)).toBe(true);
+    expect(evaluate("!(task.status == 'done')", onboarding)).toBe(true);
+  });
+
+  it("never evaluates code from the source", () => {
+    const expr = parseExpression("constructor.constructor == 'x'");
+    expect(evaluateExpression(expr, { variables: {}, now: NOW })).toBe(false);
+    expect(() => evaluate("task.title.constructor == 'x'", SEED_TASKS[0])).toThrow(/task.title is string, it has no field "constructor"/);
+  });
+});
+
+describe("conditions in workflow schemas", () => {
+  const workflow = (condition: string) => ({
+    name: "Escalate overdue",
+    trigger: { type: "event", event: "task.overdue" },
+    steps: [{ type: "condition", condition }, { type: "update", update: { status: "urgent" } }],
+  });
+
+  it("rejects invalid conditions in createWorkflow arguments and structured output", () => {
+    expect(validateToolArguments("createWorkflow", { workflow: workflow("task.dueDate < now()") }).valid).toBe(true);
+
+    const invalid = validateToolArguments("createWorkflow", { workflow: workflow("task.priority == 'urgent'") });
+    expect(invalid.errors).toEqual([
+      '$.workflow.steps[0].condition: must be a valid workflow-condition: at 17: "urgent" is not one of [low, medium, high, critical]',
+    ]);
+    expect(validateAgainstSchema({ workflow: workflow("task.dueDate <") }, OUTPUT_SCHEMAS.WorkflowDefinition).valid).toBe(false);
+  });
+
+  it("requires condition steps to carry a condition", () => {
+    const result = validateToolArguments("createWorkflow", {
+      workflow: { name: "Empty check", trigger: { type: "event", event: "task.created" }, steps: [{ type: "condition" }] },
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/^\$\.workflow\.steps\[0\]: must match at least one schema in anyOf/);
+  });
+
+  it("reports deeply nested or oversized conditions instead of overflowing the stack", () => {
+    const deep = "(".repeat(20_000) + "true" + ")".repeat(20_000);
+    expect(validateToolArguments("createWorkflow", { workflow: workflow(deep) }).errors).toEqual([
+      "$.workflow.steps[0].condition: must be a valid workflow-condition: at 2000: expression is longer than 2000 characters",
+    ]);
+
+    const nested = "(".repeat(40) + "true" + ")".repeat(40);
+    expect(validateCondition(nested)).toEqual(["at 32: nested deeper than 32 levels"]);
+    expect(validateCondition("!".repeat(40) + "true")).toEqual(["at 32: nested deeper than 32 levels"]);
+    expect(validateCondition("(".repeat(30) + "true" + ")".repeat(30))).toEqual([]);
+  });
+});
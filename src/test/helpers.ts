@@ -0,0 +1,29 @@
+import { getDefaultPlanSigner } from "@/core/plan-seal";
+import type { AgentRunResult } from "@/core/agent-runtime";
+import type { ToolCall } from "@/core/types";
+
+// Fixtures shared by the runtime tests
+
+/** A proposed call as the discussion phase leaves it: allowed, not yet reviewed. */
+export function call(toolName: string, args: Record<string, unknown>, fields: Partial<ToolCall> = {}): ToolCall {
+  return { toolName, arguments: args, status: "approved", ...fields };
+}
+
+/** A task-agent discussion that proposed `approvedCalls`, sealed the way runDiscussion seals it. */
+export function discussionWith(
+  approvedCalls: ToolCall[],
+  data: Record<string, unknown> = { taskId: "task-003", updates: { priority: "high" } }
+): AgentRunResult {
+  const discussion: AgentRunResult = {
+    phase: "discussion",
+    model: "gpt-5.2",
+    result: { success: true, data, toolCalls: approvedCalls },
+    logs: [],
+    validationPassed: true,
+    blockedCalls: [],
+    approvedCalls,
+    readCalls: [],
+    turns: 1,
+  };
+  return { ...discussion, plan: getDefaultPlanSigner().seal(discussion, "task-agent") };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { logsToCSV, logsToJSONL, runToOtelTrace, type OtelAttribute, type OtelSpan } from "@/core/log-export";
+import { runDiscussion, runExecution } from "@/core/agent-runtime";
+import { getProvider, registerProvider } from "@/core/providers";
+import { ScriptedProvider } from "@/core/scripted-provider";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+import { approveUndecided } from "@/core/tool-review";
+import type { RunRecord } from "@/core/run-history";
+import type { AgentRunRequest } from "@/core/types";
+
+const demo = getProvider("scripted");
+afterEach(() => registerProvider(demo));
+
+async function executedRun(): Promise<RunRecord> {
+  registerProvider(
+    new ScriptedProvider({
+      entries: [
+        {
+          turns: [
+            {
+              toolCalls: [
+                { id: "r1", toolName: "readTask", arguments: { taskId: "task-001" } },
+                { id: "x1", toolName: "deleteDatabase", arguments: {} },
+              ],
+            },
+            {
+              toolCalls: [{ id: "u1", toolName: "updateTask", arguments: { taskId: "task-001", updates: { status: "done" } } }],
+              data: { taskId: "task-001", updates: { status: "done" } },
+            },
+          ],
+        },
+      ],
+    })
+  );
+  const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+  const request: AgentRunRequest = { agent: "task-agent", model: "scripted", input: "close task-001" };
+  const discussion = await runDiscussion(request, { store });
+  const approvedCalls = approveUndecided(discussion.approvedCalls, "reviewer");
+  const execution = await runExecution({ ...discussion, approvedCalls }, request, { store });
+  return {
+    id: "run-1",
+    createdAt: discussion.logs[0].timestamp.toISOString(),
+    request,
+    model: discussion.model,
+    discussion,
+    execution,
+    logs: execution.logs,
+  };
+}
+
+function attr(span: OtelSpan, key: string): OtelAttribute["value"] | undefined {
+  return span.attributes.find((a) => a.key === key)?.value;
+}
+
+describe("log export", () => {
+  it("writes JSONL with one entry per line", async () => {
+    const { logs } = await executedRun();
+    const lines = logsToJSONL(logs).trim().split("\n");
+    expect(lines).toHaveLength(logs.length);
+    expect(JSON.parse(lines[0])).toMatchObject({ id: logs[0].id, hash: logs[0].hash });
+  });
+
+  it("writes CSV with quoted fields", () => {
+    const csv = logsToCSV([
+      {
+        id: "log-1", seq: 1, prevHash: "p", hash: "h", timestamp: new Date("2026-01-01T00:00:00Z"),
+        phase: "discussion", model: "scripted", agent: "task-agent", type: "plan",
+        message: 'said "hi", then\nleft', data: { a: 1 },
+      },
+    ]);
+    expect(csv).toBe(
+      "seq,id,timestamp,phase,model,agent,type,message,data,prevHash,hash\r\n" +
+        '1,log-1,2026-01-01T00:00:00.000Z,discussion,scripted,task-agent,plan,"said ""hi"", then\nleft","{""a"":1}",p,h\r\n'
+    );
+  });
+
+  it("maps a run to a trace with phase and tool call spans", async () => {
+    const run = await executedRun();
+    const spans = runToOtelTrace(run).resourceSpans[0].scopeSpans[0].spans;
+    const byName = (name: string) => spans.filter((s) => s.name === name);
+
+    const [root] = byName("agent.run");
+    expect(root.parentSpanId).toBeUndefined();
+    expect(new Set(spans.map((s) => s.traceId))).toEqual(new Set([root.traceId]));
+    expect(attr(root, "onebeam.calls.executed")).toEqual({ intValue: "1" });
+
+    const [discussion] = byName("agent.discussion");
+    const [execution] = byName("agent.execution");
+    expect([discussion.parentSpanId, execution.parentSpanId]).toEqual([root.spanId, root.spanId]);
+    expect(discussion.events).toHaveLength(run.logs.filter((l) => l.phase === "discussion").length);
+
+    const decisions = spans
+      .filter((s) => s.name.startsWith("tool."))
+      .map((s) => [s.name, s.parentSpanId === discussion.spanId ? "discussion" : "execution", attr(s, "onebeam.tool.decision")]);
+    expect(decisions).toEqual([
+      ["tool.deleteDatabase", "discussion", { stringValue: "blocked" }],
+      ["tool.readTask", "discussion", { stringValue: "executed" }],
+      ["tool.updateTask", "discussion", { stringValue: "approved" }],
+      ["tool.updateTask", "execution", { stringValue: "executed" }],
+    ]);
+    expect(byName("tool.deleteDatabase")[0].status.code).toBe(2);
+
+    // Deterministic ids: exporting again yields the same trace
+    expect(runToOtelTrace(run)).toEqual(runToOtelTrace(run));
+  });
+});
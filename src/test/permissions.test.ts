@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { grantCovers, grantMatchesTargets, missingPermissions, parsePermission, resolveToolTargets } from "@/core/permissions";
+import { getPermittedTools, validateToolAccess } from "@/core/tools";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+
+describe("parsePermission", () => {
+  it("parses action, resource and scope", () => {
+    expect(parsePermission("write:tasks[project=onboarding, priority=high]")).toEqual({
+      action: "write",
+      resource: "tasks",
+      scope: { project: "onboarding", priority: "high" },
+    });
+    expect(parsePermission("*:*")).toEqual({ action: "*", resource: "*", scope: {} });
+  });
+
+  it("rejects malformed permissions", () => {
+    expect(() => parsePermission("delete:tasks")).toThrow('Invalid permission "delete:tasks"');
+    expect(() => parsePermission("write:tasks[project]")).toThrow('bad scope "project"');
+  });
+});
+
+describe("scope matching", () => {
+  it("matches wildcards in action, resource and scope values", () => {
+    expect(grantCovers("*:tasks", "write:tasks")).toBe(true);
+    expect(grantCovers("read:*", "write:tasks")).toBe(false);
+    expect(grantMatchesTargets("write:tasks[project=onb*]", [{ project: "onboarding" }])).toBe(true);
+    expect(grantMatchesTargets("write:tasks[project=onb*]", [{ project: "platform" }])).toBe(false);
+    expect(grantMatchesTargets("read:entities[type=Customer]", [{ type: "Customer" }, { type: "Vendor" }])).toBe(false);
+    // A missing attribute never satisfies a scope
+    expect(grantMatchesTargets("write:tasks[project=*]", [{}])).toBe(false);
+  });
+
+  it("reports required permissions no grant covers for the targets", () => {
+    const grants = ["read:tasks", "write:tasks[project=onboarding]"] as const;
+    expect(missingPermissions(["write:tasks"], [...grants])).toEqual([]);
+    expect(missingPermissions(["write:tasks"], [...grants], [{ project: "platform" }])).toEqual(["write:tasks"]);
+  });
+});
+
+describe("tool access with scoped grants", () => {
+  const grants = ["read:tasks", "write:tasks[project=onboarding]"] as const;
+  const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+
+  it("offers the tool but checks each call's target", async () => {
+    expect(getPermittedTools(["updateTask"], [...grants]).map((t) => t.name)).toEqual(["updateTask"]);
+
+    const inScope = { toolName: "updateTask", arguments: { taskId: "task-001", updates: { status: "done" } }, status: "pending" as const };
+    expect(validateToolAccess("updateTask", ["updateTask"], [...grants], await resolveToolTargets(inScope, store))).toBeNull();
+
+    const outOfScope = { ...inScope, arguments: { taskId: "task-002", updates: { status: "done" } } };
+    expect(validateToolAccess("updateTask", ["updateTask"], [...grants], await resolveToolTargets(outOfScope, store))).toBe(
+      "BLOCKED: Target is outside the agent's scope for [write:tasks] (granted: [write:tasks[project=onboarding]]). This call has been rejected."
+    );
+  });
+
+  it("checks the task as it would be after the update", async () => {
+    const moveOut = { toolName: "updateTask", arguments: { taskId: "task-001", updates: { project: "platform" } }, status: "pending" as const };
+    expect(validateToolAccess("updateTask", ["updateTask"], [...grants], await resolveToolTargets(moveOut, store))).not.toBeNull();
+  });
+
+  it("scopes list calls by their filter", async () => {
+    const scoped = ["read:tasks[project=onboarding]"] as const;
+    const pinned = { toolName: "listTasks", arguments: { filter: { project: "onboarding" } }, status: "pending" as const };
+    const everything = { toolName: "listTasks", arguments: { filter: {} }, status: "pending" as const };
+    expect(validateToolAccess("listTasks", ["listTasks"], [...scoped], await resolveToolTargets(pinned, store))).toBeNull();
+    expect(validateToolAccess("listTasks", ["listTasks"], [...scoped], await resolveToolTargets(everything, store))).not.toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { InMemoryIdempotencyStore, PlanSigner } from "@/core/plan-seal";
+import { hmacSha256Hex } from "@/core/sha256";
+import { PlanRejectedError, runDiscussion, runExecution, type AgentRunResult } from "@/core/agent-runtime";
+import { getProvider, registerProvider } from "@/core/providers";
+import { ScriptedProvider } from "@/core/scripted-provider";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+import { approveUndecided, reviewToolCall } from "@/core/tool-review";
+import type { AgentRunRequest, ToolCall } from "@/core/types";
+
+const demo = getProvider("scripted");
+beforeAll(() =>
+  registerProvider(
+    new ScriptedProvider({
+      entries: [
+        {
+          turns: [
+            {
+              toolCalls: [{ id: "u1", toolName: "updateTask", arguments: { taskId: "task-001", updates: { status: "done" } } }],
+              data: { taskId: "task-001", updates: { status: "done" } },
+            },
+          ],
+        },
+      ],
+    })
+  )
+);
+afterAll(() => registerProvider(demo));
+
+const request: AgentRunRequest = { agent: "task-agent", model: "scripted", input: "close task-001" };
+
+async function refusal(discussion: AgentRunResult, options: Parameters<typeof runExecution>[2]) {
+  try {
+    await runExecution(discussion, request, options);
+  } catch (err) {
+    return err as PlanRejectedError;
+  }
+  throw new Error("expected execution to be refused");
+}
+
+describe("plan seal", () => {
+  it("computes HMAC-SHA256 per RFC 4231", () => {
+    expect(hmacSha256Hex("Jefe", "what do ya want for nothing?")).toBe(
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843"
+    );
+  });
+
+  it("executes a sealed plan once and refuses to replay it", async () => {
+    const planSigner = new PlanSigner();
+    const idempotencyStore = new InMemoryIdempotencyStore();
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const discussion = await runDiscussion(request, { store, planSigner });
+    const approved = { ...discussion, approvedCalls: approveUndecided(discussion.approvedCalls, "dana") };
+
+    const execution = await runExecution(approved, request, { store, planSigner, idempotencyStore });
+    expect(execution.approvedCalls[0].status).toBe("executed");
+
+    const replay = await refusal(approved, { store, planSigner, idempotencyStore });
+    expect(replay).toBeInstanceOf(PlanRejectedError);
+    expect(replay.reason).toBe("already_executed");
+    expect(replay.logs.at(-1)?.message).toBe(`Execution refused: plan ${discussion.plan!.idempotencyKey} was already executed`);
+  });
+
+  it("refuses plans altered after discussion but accepts reviewer edits", async () => {
+    const planSigner = new PlanSigner();
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const discussion = await runDiscussion(request, { store, planSigner });
+    const [call] = discussion.approvedCalls;
+
+    const smuggled = { ...call, arguments: { taskId: "task-002", updates: { status: "done" } } };
+    expect((await refusal({ ...discussion, approvedCalls: [smuggled] }, { store, planSigner })).reason).toBe("altered");
+    expect((await refusal({ ...discussion, approvedCalls: [call, call] }, { store, planSigner })).reason).toBe("altered");
+    expect((await refusal({ ...discussion, plan: undefined }, { store, planSigner })).reason).toBe("unsealed");
+    expect((await refusal(discussion, { store, planSigner: new PlanSigner() })).reason).toBe("altered");
+
+    const edited = reviewToolCall(
+      call,
+      { decision: "approved", reviewer: "dana", arguments: { taskId: "task-001", updates: { status: "in-progress" } } },
+      undefined,
+      planSigner
+    ).call;
+    await runExecution({ ...discussion, approvedCalls: [edited] }, request, { store, planSigner });
+    expect((await store.getTask("task-001"))?.status).toBe("in-progress");
+  });
+
+  it("refuses reviews whose original arguments differ from the sealed proposal", async () => {
+    const planSigner = new PlanSigner();
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const discussion = await runDiscussion(request, { store, planSigner });
+    const edited = reviewToolCall(
+      discussion.approvedCalls[0],
+      { decision: "approved", reviewer: "dana", arguments: { taskId: "task-002", updates: { status: "done" } } },
+      undefined,
+      planSigner
+    ).call;
+    const tampered = { ...edited, review: { ...edited.review!, originalArguments: edited.arguments } };
+
+    const refused = await refusal({ ...discussion, approvedCalls: [tampered] }, { store, planSigner });
+    expect(refused.reason).toBe("altered");
+    expect(refused.message).toBe("Execution refused: call u1 (updateTask) does not match the arguments the model proposed");
+    expect((await store.getTask("task-002"))?.status).toBe("in-progress");
+  });
+
+  it("refuses edits to in-scope tasks that no review signed", async () => {
+    const planSigner = new PlanSigner();
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const discussion = await runDiscussion(request, { store, planSigner });
+    const [call] = discussion.approvedCalls;
+    // Keeps the proposal as the "original", but the new target was never reviewed
+    const forged: ToolCall = {
+      ...call,
+      arguments: { taskId: "task-002", updates: { status: "done" } },
+      review: { decision: "approved", reviewer: "dana", decidedAt: new Date().toISOString(), originalArguments: call.arguments },
+    };
+    const otherSigner = reviewToolCall(
+      call,
+      { decision: "approved", reviewer: "dana", arguments: forged.arguments },
+      undefined,
+      new PlanSigner()
+    ).call;
+
+    for (const edit of [forged, otherSigner]) {
+      const refused = await refusal({ ...discussion, approvedCalls: [edit] }, { store, planSigner });
+      expect(refused.reason).toBe("altered");
+      expect(refused.message).toBe("Execution refused: call u1 (updateTask) was edited without a signed review");
+    }
+    expect((await store.getTask("task-002"))?.status).toBe("in-progress");
+  });
+
+  it("re-checks a reviewer's edit against the agent's policies", async () => {
+    const planSigner = new PlanSigner();
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const discussion = await runDiscussion(request, { store, planSigner });
+    const [call] = discussion.approvedCalls;
+    // A signed edit passes the seal; policies still apply
+    const edited = reviewToolCall(
+      call,
+      { decision: "approved", reviewer: "dana", arguments: { taskId: "task-001", updates: { priority: "critical", assignee: "mallory" } } },
+      undefined,
+      planSigner
+    ).call;
+
+    const execution = await runExecution({ ...discussion, approvedCalls: [edited] }, request, { store, planSigner });
+    expect(execution.blockedCalls.map((c) => c.rejection?.reason)).toEqual(["policy_denied"]);
+    expect(await store.getTask("task-001")).toEqual(SEED_TASKS[0]);
+  });
+
+  it("refuses expired plans", async () => {
+    let now = new Date("2026-03-01T09:00:00Z");
+    const planSigner = new PlanSigner({ ttlMs: 60_000, now: () => now });
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const discussion = await runDiscussion(request, { store, planSigner });
+    expect(discussion.plan!.expiresAt).toBe("2026-03-01T09:01:00.000Z");
+
+    now = new Date("2026-03-01T09:01:01Z");
+    const expired = await refusal(discussion, { store, planSigner });
+    expect(expired.reason).toBe("expired");
+    expect((await store.getTask("task-001"))?.status).toBe("open");
+  });
+});
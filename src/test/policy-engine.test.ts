@@ -0,0 +1,169 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { buildPolicyContext, evaluatePolicies, parsePolicyFile } from "@/core/policy-engine";
+import { AGENT_CONFIGS, runDiscussion, runExecution } from "@/core/agent-runtime";
+import { getProvider, registerProvider } from "@/core/providers";
+import { ScriptedProvider } from "@/core/scripted-provider";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+import { approveUndecided, reviewToolCall } from "@/core/tool-review";
+import type { ToolCall } from "@/core/types";
+import taskAgentPolicies from "@/core/policies/task-agent.json";
+import workflowAgentPolicies from "@/core/policies/workflow-agent.json";
+import { call } from "./helpers";
+
+const agent = { name: "task-agent", permissions: ["read:tasks", "write:tasks"] };
+
+describe("task-agent policies", () => {
+  const policies = parsePolicyFile(taskAgentPolicies, "task-agent.json");
+
+  it("denies setting critical priority on tasks assigned to someone else", () => {
+    const decision = evaluatePolicies(policies, call("updateTask", { taskId: "task-001", updates: { priority: "critical" } }), {
+      args: { taskId: "task-001", updates: { priority: "critical" } },
+      agent,
+      task: { ...SEED_TASKS[0], assignee: "alice" },
+    });
+    expect(decision.effect).toBe("deny");
+    expect(decision.matched.map((m) => m.id)).toEqual(["critical-only-own-tasks"]);
+  });
+
+  it("allows critical priority on the agent's own tasks", () => {
+    const args = { taskId: "task-001", updates: { priority: "critical" } };
+    const decision = evaluatePolicies(policies, call("updateTask", args), {
+      args,
+      agent,
+      task: { ...SEED_TASKS[0], assignee: "task-agent" },
+    });
+    expect(decision).toEqual({ effect: "allow", matched: [] });
+  });
+
+  it("requires approval to reassign, and deny beats require_approval", () => {
+    const args = { taskId: "task-001", updates: { assignee: "bob", priority: "critical" } };
+    const decision = evaluatePolicies(policies, call("updateTask", args), { args, agent, task: SEED_TASKS[0] });
+    expect(decision.effect).toBe("deny");
+    expect(decision.matched.map((m) => m.effect)).toEqual(["deny", "require_approval"]);
+  });
+});
+
+describe("workflow-agent policies", () => {
+  const policies = parsePolicyFile(workflowAgentPolicies, "workflow-agent.json");
+
+  const NOW = new Date("2026-01-12T08:00:00Z");
+  const decide = async (trigger: Record<string, unknown>) => {
+    const proposal = call("createWorkflow", { workflow: { name: "W", trigger, steps: [] } });
+    const context = await buildPolicyContext(proposal, { name: "workflow-agent", permissions: [] }, new InMemoryDataStore(), NOW);
+    return evaluatePolicies(policies, proposal, context);
+  };
+
+  it("denies schedules whose next two runs are a minute apart", async () => {
+    for (const schedule of ["* 9-17 * * *", "0-59 * * * *", "*/1   *  * * *", "0,1 9 * * *"]) {
+      expect((await decide({ type: "cron", schedule })).matched.map((m) => m.id), schedule).toEqual(["no-every-minute-schedule"]);
+    }
+    expect((await decide({ type: "interval", everyMinutes: 1 })).effect).toBe("deny");
+    for (const trigger of [
+      { type: "event", event: "task.overdue" },
+      { type: "cron", schedule: "*/15 9-17 * * *" },
+      { type: "interval", everyMinutes: 2 },
+    ]) {
+      expect((await decide(trigger)).effect).toBe("allow");
+    }
+  });
+
+  it("denies wildcard event triggers", async () => {
+    expect((await decide({ type: "event", event: "task.*" })).matched.map((m) => m.id)).toEqual(["no-wildcard-trigger"]);
+  });
+});
+
+describe("parsePolicyFile", () => {
+  it("reports the file and every schema problem", () => {
+    expect(() => parsePolicyFile({ policies: [{ id: "p", tool: "x", effect: "block", reason: "r" }] }, "bad.json")).toThrow(
+      /^Invalid policy file bad\.json: \$\.policies\[0\]\.effect: must be one of \[allow, deny, require_approval\]/
+    );
+    expect(() =>
+      parsePolicyFile({ policies: [{ id: "p", tool: "x", effect: "deny", reason: "r", when: { path: "a", matches: "(" } }] }, "re.json")
+    ).toThrow('Invalid policy file re.json#p: invalid regex "("');
+  });
+});
+
+describe("policies in the runtime", () => {
+  const demo = getProvider("scripted");
+  afterEach(() => registerProvider(demo));
+
+  it("blocks denied calls with the policy reason and re-checks at execution", async () => {
+    registerProvider(
+      new ScriptedProvider({
+        entries: [
+          {
+            turns: [
+              {
+                toolCalls: [
+                  { toolName: "updateTask", arguments: { taskId: "task-002", updates: { priority: "critical" } } },
+                  { toolName: "updateTask", arguments: { taskId: "task-003", updates: { assignee: "bob" } } },
+                ],
+                data: { taskId: "task-003", updates: { assignee: "bob" } },
+              },
+            ],
+          },
+        ],
+      })
+    );
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const request = { agent: "task-agent", model: "scripted" as const, input: "escalate" };
+
+    const discussion = await runDiscussion(request, { store });
+    expect(discussion.blockedCalls[0].rejection).toEqual({
+      reason: "policy_denied",
+      message: 'BLOCKED by policy "critical-only-own-tasks": task-agent may only set priority critical on tasks assigned to it',
+    });
+    expect(discussion.approvedCalls[0].policy?.effect).toBe("require_approval");
+    expect(discussion.logs.some((l) => l.message.endsWith("requires explicit approval (policy \"reassign-needs-approval\": reassigning a task needs explicit approval)"))).toBe(true);
+
+    // A policy added after discussion still applies at execution time
+    const config = AGENT_CONFIGS.find((c) => c.name === "task-agent")!;
+    const original = config.policies;
+    config.policies = [...original!, { id: "freeze", tool: "*", effect: "deny", reason: "changes are frozen" }];
+    try {
+      const approvedCalls = discussion.approvedCalls.map((c) => reviewToolCall(c, { decision: "approved", reviewer: "reviewer" }).call);
+      const execution = await runExecution({ ...discussion, approvedCalls }, request, { store });
+      expect(execution.logs.at(-1)?.message).toBe("Execution complete. 0 tool calls executed, 0 failed. 1 blocked by scope or policy.");
+      expect((await store.getTask("task-003"))?.assignee).toBe("alice");
+    } finally {
+      config.policies = original;
+    }
+  });
+
+  it("executes require_approval calls only after an individual approval", async () => {
+    registerProvider(
+      new ScriptedProvider({
+        entries: [
+          {
+            turns: [
+              {
+                toolCalls: [{ toolName: "updateTask", arguments: { taskId: "task-003", updates: { assignee: "bob" } } }],
+                data: { taskId: "task-003", updates: { assignee: "bob" } },
+              },
+            ],
+          },
+        ],
+      })
+    );
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const request = { agent: "task-agent", model: "scripted" as const, input: "reassign" };
+    // Plans run once, so each attempt gets a fresh discussion
+    const execute = async (review: (calls: ToolCall[]) => ToolCall[]) => {
+      const discussion = await runDiscussion(request, { store });
+      return runExecution({ ...discussion, approvedCalls: review(discussion.approvedCalls) }, request, { store });
+    };
+    const approve = (c: ToolCall) => reviewToolCall(c, { decision: "approved", reviewer: "ops" }).call;
+
+    // "Approve all" leaves the call undecided, so it is skipped
+    const bulk = await execute((calls) => approveUndecided(calls, "ops"));
+    expect(bulk.logs.at(-1)?.message).toBe("Execution complete. 0 tool calls executed, 0 failed. 1 skipped without approval.");
+
+    // A bulk review set by hand is still not enough
+    const blocked = await execute((calls) => calls.map((c) => ({ ...approve(c), review: { ...approve(c).review!, bulk: true } })));
+    expect(blocked.blockedCalls[0].rejection?.reason).toBe("approval_required");
+    expect((await store.getTask("task-003"))?.assignee).toBe("alice");
+
+    await execute((calls) => calls.map(approve));
+    expect((await store.getTask("task-003"))?.assignee).toBe("bob");
+  });
+});
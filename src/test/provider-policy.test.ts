@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { callWithPolicy, isRetryableError, ProviderTimeoutError, type ProviderAttempt } from "@/core/provider-policy";
+import { AgentRunError, runDiscussion } from "@/core/agent-runtime";
+import { getProvider } from "@/core/providers";
+import { NetworkError, ProviderHttpError, postJSON } from "@/core/transport";
+import type { GenerateOptions, StructuredResult } from "@/core/types";
+
+const OK: StructuredResult = { success: true, data: {}, toolCalls: [] };
+const OPTIONS: GenerateOptions = { systemPrompt: "", userPrompt: "", tools: [], outputSchema: { type: "object" } };
+
+function httpError(status: number) {
+  return new ProviderHttpError("anthropic", status, "{}");
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("isRetryableError", () => {
+  it("retries rate limits, server errors, timeouts and network failures only", () => {
+    expect([429, 500, 503, 408].map((s) => isRetryableError(httpError(s)))).toEqual([true, true, true, true]);
+    expect([400, 401, 404].map((s) => isRetryableError(httpError(s)))).toEqual([false, false, false]);
+    expect(isRetryableError(new ProviderTimeoutError("gpt-5.2", 10))).toBe(true);
+    expect(isRetryableError(new NetworkError("openai", new TypeError("Failed to fetch")))).toBe(true);
+    expect(isRetryableError(new Error("bad JSON"))).toBe(false);
+    // e.g. an adapter reading body.choices[0] on an unexpected body
+    expect(isRetryableError(new TypeError("Cannot read properties of undefined (reading '0')"))).toBe(false);
+  });
+
+  it("sees transport failures as network errors", async () => {
+    const offline = async () => {
+      throw new TypeError("Failed to fetch");
+    };
+    const error = await postJSON(offline, "openai", "https://api.openai.com/v1/chat/completions", {}, {}).catch((e) => e);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toBe("openai network error: Failed to fetch");
+  });
+});
+
+describe("callWithPolicy", () => {
+  it("retries with exponential backoff before succeeding", async () => {
+    vi.useFakeTimers();
+    const generate = vi.spyOn(getProvider("claude-opus-4.6"), "generateStructuredOutput")
+      .mockRejectedValueOnce(httpError(429))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue(OK);
+    const attempts: ProviderAttempt[] = [];
+
+    const pending = callWithPolicy(
+      ["claude-opus-4.6"],
+      { maxRetries: 2, backoffMs: 100 },
+      (provider) => provider.generateStructuredOutput(OPTIONS),
+      (a) => attempts.push(a)
+    );
+    await vi.runAllTimersAsync();
+
+    expect((await pending).modelId).toBe("claude-opus-4.6");
+    expect(generate).toHaveBeenCalledTimes(3);
+    expect(attempts.map((a) => [a.attempt, a.next, a.retryInMs])).toEqual([
+      [1, "retry", 100],
+      [2, "retry", 200],
+      [3, "done", undefined],
+    ]);
+  });
+
+  it("falls back immediately on a non-retryable error", async () => {
+    vi.spyOn(getProvider("claude-opus-4.6"), "generateStructuredOutput").mockRejectedValue(httpError(401));
+    vi.spyOn(getProvider("gpt-5.2"), "generateStructuredOutput").mockResolvedValue(OK);
+    const attempts: ProviderAttempt[] = [];
+
+    const { modelId } = await callWithPolicy(
+      ["claude-opus-4.6", "gpt-5.2"],
+      {},
+      (provider) => provider.generateStructuredOutput(OPTIONS),
+      (a) => attempts.push(a)
+    );
+
+    expect(modelId).toBe("gpt-5.2");
+    expect(attempts.map((a) => [a.modelId, a.next, a.fallbackTo])).toEqual([
+      ["claude-opus-4.6", "fallback", "gpt-5.2"],
+      ["gpt-5.2", "done", undefined],
+    ]);
+  });
+
+  it("surfaces adapter bugs instead of retrying them", async () => {
+    const attempts: ProviderAttempt[] = [];
+    const bug = callWithPolicy(
+      ["gpt-5.2"],
+      { maxRetries: 2 },
+      async () => ({} as { choices: unknown[] }).choices[0],
+      (a) => attempts.push(a)
+    );
+    await expect(bug).rejects.toBeInstanceOf(TypeError);
+    expect(attempts.map((a) => a.next)).toEqual(["give_up"]);
+  });
+
+  it("aborts attempts that exceed the timeout", async () => {
+    vi.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    const pending = callWithPolicy(["gemini-3"], { timeoutMs: 1000, maxRetries: 0 }, (_, s) => {
+      signal = s;
+      return new Promise<never>(() => {});
+    });
+    const settled = expect(pending).rejects.toBeInstanceOf(ProviderTimeoutError);
+    await vi.advanceTimersByTimeAsync(1000);
+    await settled;
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
+describe("runDiscussion provider fallback", () => {
+  it("fails workflow-agent over from Claude to GPT and logs every attempt", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(getProvider("claude-opus-4.6"), "generateStructuredOutput").mockRejectedValue(httpError(529));
+    vi.spyOn(getProvider("gpt-5.2"), "generateStructuredOutput").mockResolvedValue({
+      success: true,
+      data: { workflow: { name: "Escalate", trigger: { type: "event", event: "task.overdue" }, steps: [{ type: "update" }] } },
+      toolCalls: [],
+    });
+
+    const pending = runDiscussion({ agent: "workflow-agent", input: "escalate overdue tasks" });
+    await vi.runAllTimersAsync();
+    const result = await pending;
+
+    expect(result.model).toBe("gpt-5.2");
+    expect(result.validationPassed).toBe(true);
+    const attemptLogs = result.logs.filter((l) => l.message.startsWith("Turn 1:")).map((l) => [l.model, l.type]);
+    expect(attemptLogs).toEqual([
+      ["claude-opus-4.6", "error"],
+      ["claude-opus-4.6", "error"],
+      ["claude-opus-4.6", "error"],
+      ["gpt-5.2", "plan"],
+    ]);
+    expect(result.logs.at(-1)?.model).toBe("gpt-5.2");
+  });
+
+  it("throws an AgentRunError carrying the logs when every model fails", async () => {
+    vi.spyOn(getProvider("gemini-3"), "generateStructuredOutput").mockRejectedValue(httpError(400));
+
+    const error = await runDiscussion({ agent: "readonly-agent", input: "list tasks" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AgentRunError);
+    expect(error.logs.map((l: { message: string }) => l.message)).toContain(
+      "Turn 1: Gemini 3 attempt 1 failed — anthropic API error 400: {}. No fallback models left."
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import { OpenAIProvider, ClaudeProvider, GeminiProvider } from "@/core/providers";
+import { collectStream } from "@/core/streaming";
+import { callWithPolicy, type ProviderAttempt } from "@/core/provider-policy";
+import { ProviderHttpError, type Transport } from "@/core/transport";
+import { TOOL_REGISTRY, OUTPUT_SCHEMAS } from "@/core/tools";
+import type { ConversationMessage, GenerateOptions } from "@/core/types";
+import openaiCompletion from "./fixtures/openai-chat-completion.json";
+import anthropicMessage from "./fixtures/anthropic-message.json";
+import geminiContent from "./fixtures/gemini-generate-content.json";
+import openaiStream from "./fixtures/openai-stream.sse?raw";
+import anthropicStream from "./fixtures/anthropic-stream.sse?raw";
+import geminiStream from "./fixtures/gemini-stream.sse?raw";
+
+interface RecordedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+// Serves a recorded vendor response and records what the adapter sent
+function replay(fixture: unknown, status = 200) {
+  const requests: RecordedRequest[] = [];
+  const transport: Transport = async (url, init) => {
+    requests.push({ url, headers: init.headers as Record<string, string>, body: JSON.parse(String(init.body)) });
+    return new Response(typeof fixture === "string" ? fixture : JSON.stringify(fixture), { status });
+  };
+  return { transport, requests };
+}
+
+const HISTORY: ConversationMessage[] = [
+  { role: "user", content: "list open tasks" },
+  { role: "assistant", toolCalls: [{ id: "c1", toolName: "listTasks", arguments: {}, status: "executed" }] },
+  { role: "tool", toolCallId: "c1", toolName: "listTasks", result: { success: true, message: "Listed 0 task(s)", data: [] } },
+];
+
+function options(overrides: Partial<GenerateOptions> = {}): GenerateOptions {
+  return {
+    systemPrompt: "Manage tasks.",
+    userPrompt: "list open tasks",
+    tools: TOOL_REGISTRY.filter((t) => ["listTasks", "updateTask"].includes(t.name)),
+    outputSchema: OUTPUT_SCHEMAS.TaskUpdate,
+    ...overrides,
+  };
+}
+
+describe("OpenAI adapter", () => {
+  it("sends function tools and tool messages, and parses the completion", async () => {
+    const { transport, requests } = replay(openaiCompletion);
+    const provider = new OpenAIProvider({ transport, apiKey: "sk-test" });
+
+    const result = await provider.generateStructuredOutput(options({ messages: HISTORY }));
+
+    const [request] = requests;
+    expect(request.url).toBe("https://api.openai.com/v1/chat/completions");
+    expect(request.headers.authorization).toBe("Bearer sk-test");
+    expect(request.body.tools).toContainEqual(expect.objectContaining({ type: "function", function: expect.objectContaining({ name: "listTasks" }) }));
+    expect(request.body.messages).toEqual([
+      { role: "system", content: "Manage tasks." },
+      { role: "user", content: "list open tasks" },
+      { role: "assistant", content: null, tool_calls: [{ id: "c1", type: "function", function: { name: "listTasks", arguments: "{}" } }] },
+      { role: "tool", tool_call_id: "c1", content: JSON.stringify(HISTORY[2].role === "tool" && HISTORY[2].result) },
+    ]);
+    // Registry $refs are inlined for the vendor
+    expect(JSON.stringify(request.body)).not.toContain("$ref");
+
+    expect(result).toMatchObject({
+      success: true,
+      data: { taskId: "task-001", updates: { status: "in-progress" } },
+      reasoning: "task-001 is open; moving it to in-progress.",
+      toolCalls: [{ id: "call_Qm7", toolName: "updateTask", arguments: { taskId: "task-001", updates: { status: "in-progress" } } }],
+    });
+  });
+
+  it("parses a streamed completion", async () => {
+    const { transport, requests } = replay(openaiStream);
+    const result = await collectStream(new OpenAIProvider({ transport }).streamStructuredOutput(options()));
+    expect(requests[0].body.stream).toBe(true);
+    expect(result.reasoning).toBe("Listing tasks.");
+    expect(result.toolCalls).toEqual([{ id: "call_L1", toolName: "listTasks", arguments: { filter: {} }, status: "pending" }]);
+  });
+
+  it("retries a stream that drops mid-response as a network error", async () => {
+    const firstEvent = openaiStream.slice(0, openaiStream.indexOf("\n\n") + 2);
+    let calls = 0;
+    const transport: Transport = async () => {
+      if (++calls > 1) return new Response(openaiStream);
+      const dropped = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(firstEvent));
+          controller.error(new TypeError("network connection was lost"));
+        },
+      });
+      return new Response(dropped);
+    };
+    const provider = new OpenAIProvider({ transport });
+    const attempts: ProviderAttempt[] = [];
+
+    const { value } = await callWithPolicy(
+      ["gpt-5.2"],
+      { maxRetries: 1, backoffMs: 0 },
+      (_, signal) => collectStream(provider.streamStructuredOutput(options({ signal }))),
+      (a) => attempts.push(a)
+    );
+
+    expect(attempts.map((a) => [a.next, a.error])).toEqual([
+      ["retry", "openai network error: network connection was lost"],
+      ["done", undefined],
+    ]);
+    expect(value.toolCalls.map((c) => c.id)).toEqual(["call_L1"]);
+  });
+
+  it("surfaces HTTP errors with their status", async () => {
+    const { transport } = replay({ error: { message: "Rate limit reached" } }, 429);
+    const error = await new OpenAIProvider({ transport }).generateStructuredOutput(options()).catch((e) => e);
+    expect(error).toBeInstanceOf(ProviderHttpError);
+    expect(error.status).toBe(429);
+  });
+});
+
+describe("Anthropic adapter", () => {
+  it("sends tool_result blocks in a user turn, and parses content blocks", async () => {
+    const { transport, requests } = replay(anthropicMessage);
+    const provider = new ClaudeProvider({ transport, apiKey: "sk-ant" });
+
+    const result = await provider.generateStructuredOutput(
+      options({ messages: HISTORY, outputSchema: OUTPUT_SCHEMAS.WorkflowDefinition })
+    );
+
+    const [request] = requests;
+    expect(request.url).toBe("https://api.anthropic.com/v1/messages");
+    expect(request.headers["x-api-key"]).toBe("sk-ant");
+    expect(request.body.system).toBe("Manage tasks.");
+    expect(request.body.messages).toEqual([
+      { role: "user", content: "list open tasks" },
+      { role: "assistant", content: [{ type: "tool_use", id: "c1", name: "listTasks", input: {} }] },
+      { role: "user", content: [expect.objectContaining({ type: "tool_result", tool_use_id: "c1", is_error: false })] },
+    ]);
+
+    expect(result.reasoning).toBe("Overdue tasks should escalate.");
+    expect(result.data).toMatchObject({ workflow: { name: "Escalate", trigger: { type: "event", event: "task.overdue" } } });
+    expect(result.toolCalls[0]).toMatchObject({ id: "toolu_01A", toolName: "createWorkflow" });
+  });
+
+  it("sends signed thinking blocks back unchanged, never as text", async () => {
+    const { transport, requests } = replay(anthropicMessage);
+    const provider = new ClaudeProvider({ transport });
+    const first = await provider.generateStructuredOutput(options());
+    const thinking = { type: "thinking", thinking: "Overdue tasks should escalate.", signature: "EqQB" };
+    expect(first.nativeReasoning).toEqual({ vendor: "anthropic", blocks: [thinking] });
+
+    const [call] = first.toolCalls;
+    await provider.generateStructuredOutput(options({
+      messages: [
+        { role: "user", content: "escalate overdue tasks" },
+        { role: "assistant", toolCalls: [call], nativeReasoning: first.nativeReasoning },
+        { role: "tool", toolCallId: call.id!, toolName: call.toolName, result: { success: true, message: "Proposed" } },
+      ],
+    }));
+
+    expect((requests[1].body.messages as { content: unknown }[])[1].content).toEqual([
+      thinking,
+      { type: "tool_use", id: "toolu_01A", name: "createWorkflow", input: call.arguments },
+    ]);
+  });
+
+  it("parses a streamed message, rebuilding signed thinking blocks", async () => {
+    const { transport } = replay(anthropicStream);
+    const result = await collectStream(new ClaudeProvider({ transport }).streamStructuredOutput(options()));
+    expect(result.data).toEqual({ tasks: [] });
+    expect(result.toolCalls).toEqual([{ id: "toolu_S1", toolName: "listTasks", arguments: { filter: {} }, status: "pending" }]);
+    expect(result.reasoning).toBe("Listing tasks first.");
+    expect(result.nativeReasoning).toEqual({
+      vendor: "anthropic",
+      blocks: [{ type: "thinking", thinking: "Listing tasks first.", signature: "EqQBCkYIBxgC" }],
+    });
+  });
+});
+
+describe("Gemini adapter", () => {
+  it("sends functionResponse parts, and parses thoughts and function calls", async () => {
+    const { transport, requests } = replay(geminiContent);
+    const provider = new GeminiProvider({ transport, apiKey: "g-key" });
+
+    const result = await provider.generateStructuredOutput(options({ messages: HISTORY }));
+
+    const [request] = requests;
+    expect(request.url).toBe("https://generativelanguage.googleapis.com/v1beta/models/gemini-3:generateContent");
+    expect(request.headers["x-goog-api-key"]).toBe("g-key");
+    expect(request.body.contents).toEqual([
+      { role: "user", parts: [{ text: "list open tasks" }] },
+      { role: "model", parts: [{ functionCall: { id: "c1", name: "listTasks", args: {} } }] },
+      { role: "user", parts: [{ functionResponse: { name: "listTasks", response: expect.objectContaining({ success: true }) } }] },
+    ]);
+
+    expect(result.reasoning).toBe("Listing tasks first.");
+    expect(result.toolCalls).toEqual([
+      { id: "fc_listTasks_0", toolName: "listTasks", arguments: { filter: { status: "open" } }, status: "pending" },
+    ]);
+  });
+
+  it("parses a streamed response from the SSE endpoint", async () => {
+    const { transport, requests } = replay(geminiStream);
+    const result = await collectStream(new GeminiProvider({ transport }).streamStructuredOutput(options()));
+    expect(requests[0].url).toContain(":streamGenerateContent?alt=sse");
+    expect(result.data).toEqual({ tasks: [] });
+    expect(result.toolCalls.map((c) => c.toolName)).toEqual(["listTasks"]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { FileRunStore, InMemoryRunStore, type RunFileSystem, type RunRecord, type RunStore } from "@/core/run-history";
+import { runDiscussion } from "@/core/agent-runtime";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+import { getProvider, registerProvider } from "@/core/providers";
+import { ScriptedProvider } from "@/core/scripted-provider";
+import demoScript from "@/core/demo-script.json";
+import type { ToolExecutionResult } from "@/core/types";
+
+const demo = getProvider("scripted");
+beforeAll(() => registerProvider(new ScriptedProvider(demoScript)));
+afterAll(() => registerProvider(demo));
+
+function memoryFs(): RunFileSystem & { files: Map<string, string> } {
+  const files = new Map<string, string>();
+  return {
+    files,
+    readFile: async (path) => files.get(path),
+    writeFile: async (path, content) => void files.set(path, content),
+  };
+}
+
+async function recordOf(createdAt: string, input: string): Promise<RunRecord> {
+  const discussion = await runDiscussion(
+    { agent: "readonly-agent", model: "scripted", input },
+    { store: new InMemoryDataStore({ tasks: SEED_TASKS }) }
+  );
+  return {
+    id: `run-${createdAt}`,
+    createdAt,
+    request: { agent: "readonly-agent", model: "scripted", input },
+    model: discussion.model,
+    discussion,
+    logs: discussion.logs,
+  };
+}
+
+describe.each([
+  ["InMemoryRunStore", () => new InMemoryRunStore()],
+  ["FileRunStore", () => new FileRunStore(memoryFs(), "runs.jsonl")],
+])("%s", (_, create: () => RunStore) => {
+  it("round-trips a run exactly, including log timestamps", async () => {
+    const store = create();
+    const record = await recordOf("2026-03-01T10:00:00.000Z", "List all current tasks");
+    await store.save(record);
+
+    const loaded = await store.get(record.id);
+    expect(loaded).toEqual(record);
+    expect(loaded!.logs[0].timestamp).toBeInstanceOf(Date);
+    expect((loaded!.discussion!.readCalls[0].result as ToolExecutionResult).data).toHaveLength(3);
+  });
+
+  it("lists newest first, replaces by id and deletes", async () => {
+    const store = create();
+    const older = await recordOf("2026-03-01T10:00:00.000Z", "List all current tasks");
+    const newer = await recordOf("2026-03-02T10:00:00.000Z", "show tasks");
+    await store.save(older);
+    await store.save(newer);
+    await store.save({ ...older, error: "replaced" });
+
+    expect((await store.list()).map((r) => [r.id, r.error])).toEqual([
+      [newer.id, undefined],
+      [older.id, "replaced"],
+    ]);
+
+    await store.delete(newer.id);
+    expect((await store.list()).map((r) => r.id)).toEqual([older.id]);
+  });
+});
+
+describe("FileRunStore", () => {
+  it("writes one record per line and reports corrupt lines", async () => {
+    const fs = memoryFs();
+    const store = new FileRunStore(fs, "runs.jsonl");
+    await store.save(await recordOf("2026-03-01T10:00:00.000Z", "List all current tasks"));
+    expect(fs.files.get("runs.jsonl")!.trim().split("\n")).toHaveLength(1);
+
+    fs.files.set("runs.jsonl", fs.files.get("runs.jsonl") + "{not json\n");
+    await expect(store.list()).rejects.toThrow("runs.jsonl:2: invalid run record");
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { ManualClock, nextCronTime, nextTriggerTime, parseCron } from "@/core/schedule";
+import { validateToolArguments } from "@/core/tools";
+
+const next = (schedule: string, after: string) => nextCronTime(parseCron(schedule), new Date(after))?.toISOString() ?? null;
+
+describe("cron schedules", () => {
+  it("finds the next matching minute in UTC", () => {
+    expect(next("*/15 * * * *", "2026-01-12T10:07:30Z")).toBe("2026-01-12T10:15:00.000Z");
+    expect(next("*/15 * * * *", "2026-01-12T10:15:00Z")).toBe("2026-01-12T10:30:00.000Z"); // strictly after
+    expect(next("0 9 * * 1-5", "2026-01-16T10:00:00Z")).toBe("2026-01-19T09:00:00.000Z"); // Friday → Monday
+    expect(next("30 8 1 */3 *", "2026-01-12T00:00:00Z")).toBe("2026-04-01T08:30:00.000Z");
+    expect(next("0 0 29 2 *", "2026-03-01T00:00:00Z")).toBe("2028-02-29T00:00:00.000Z");
+    expect(next("0 12 * * 7", "2026-01-12T00:00:00Z")).toBe("2026-01-18T12:00:00.000Z"); // 7 is Sunday
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 13th, or any Friday
+    expect(next("0 0 13 * 5", "2026-01-12T00:00:00Z")).toBe("2026-01-13T00:00:00.000Z");
+    expect(next("0 0 13 * 5", "2026-01-13T00:00:00Z")).toBe("2026-01-16T00:00:00.000Z");
+  });
+
+  it("rejects malformed expressions and impossible dates", () => {
+    expect(() => parseCron("0 9 * *")).toThrow("cron needs 5 fields (minute hour day-of-month month day-of-week), got 4");
+    expect(() => parseCron("61 * * * *")).toThrow("cron minute: 61 is outside 0-59");
+    expect(() => parseCron("0 17-9 * * *")).toThrow("cron hour: range 17-9 runs backwards");
+    expect(() => parseCron("*/0 * * * *")).toThrow("cron minute: step must be at least 1");
+    expect(() => parseCron("0 9 * JAN *")).toThrow('cron month: "JAN" is not a number');
+    expect(next("0 0 30 2 *", "2026-01-01T00:00:00Z")).toBeNull();
+  });
+
+  it("validates workflow triggers through the tool schema", () => {
+    const workflow = (trigger: unknown) => ({ workflow: { name: "Digest", trigger, steps: [{ type: "notify" }] } });
+    expect(validateToolArguments("createWorkflow", workflow({ type: "cron", schedule: "0 9 * * 1-5" })).valid).toBe(true);
+    expect(validateToolArguments("createWorkflow", workflow({ type: "interval", everyMinutes: 30 })).valid).toBe(true);
+
+    const badCron = validateToolArguments("createWorkflow", workflow({ type: "cron", schedule: "0 25 * * *" }));
+    expect(badCron.errors[0]).toContain("$.workflow.trigger.schedule: must be a valid cron: cron hour: 25 is outside 0-23");
+    expect(validateToolArguments("createWorkflow", workflow({ type: "cron", schedule: "0 0 30 2 *" })).errors[0]).toContain(
+      "must be a valid cron: never matches a date"
+    );
+    expect(validateToolArguments("createWorkflow", workflow({ type: "interval", everyMinutes: 0 })).valid).toBe(false);
+    expect(validateToolArguments("createWorkflow", workflow("task.overdue")).valid).toBe(false);
+  });
+});
+
+describe("triggers and clocks", () => {
+  it("computes the next fire time for timed triggers only", () => {
+    const after = new Date("2026-01-12T09:00:00Z");
+    expect(nextTriggerTime({ type: "interval", everyMinutes: 45 }, after)?.toISOString()).toBe("2026-01-12T09:45:00.000Z");
+    expect(nextTriggerTime({ type: "cron", schedule: "0 12 * * *" }, after)?.toISOString()).toBe("2026-01-12T12:00:00.000Z");
+    expect(nextTriggerTime({ type: "event", event: "task.created" }, after)).toBeNull();
+    expect(nextTriggerTime({ type: "manual" }, after)).toBeNull();
+  });
+
+  it("runs manual timers in due order at their due time", async () => {
+    const clock = new ManualClock("2026-01-12T00:00:00Z");
+    const seen: string[] = [];
+    const log = (label: string) => () => void seen.push(`${label}@${clock.now().toISOString().slice(11, 16)}`);
+
+    clock.setTimer(log("b"), 2 * 60_000);
+    const cancelled = clock.setTimer(log("x"), 60_000);
+    clock.setTimer(() => {
+      log("a")();
+      clock.setTimer(log("a2"), 30_000); // set by a callback, still in range
+    }, 60_000);
+    clock.setTimer(log("late"), 10 * 60_000);
+    clock.clearTimer(cancelled);
+
+    await clock.advance(5 * 60_000);
+    expect(seen).toEqual(["a@00:01", "a2@00:01", "b@00:02"]);
+    expect(clock.now().toISOString()).toBe("2026-01-12T00:05:00.000Z");
+    expect(clock.pendingTimers()).toBe(1);
+  });
+});
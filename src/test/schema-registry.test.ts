@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { SchemaRegistry, dereferenceSchema } from "@/core/schema-registry";
+import { validateAgainstSchema } from "@/core/schema-validator";
+import { OUTPUT_SCHEMAS, TOOL_REGISTRY } from "@/core/tools";
+import type { JSONSchema } from "@/core/types";
+
+const TREE: JSONSchema = {
+  $ref: "#/$defs/Node",
+  $defs: {
+    Node: {
+      type: "object",
+      properties: {
+        label: { type: "string" },
+        children: { type: "array", items: { $ref: "#/$defs/Node" } },
+      },
+      required: ["label"],
+    },
+  },
+};
+
+describe("$ref / $defs resolution", () => {
+  it("validates recursive schemas against finite data", () => {
+    const data = { label: "root", children: [{ label: "a", children: [{ label: 1 }] }] };
+    expect(validateAgainstSchema(data, TREE).errors).toEqual([
+      "$.children[0].children[0].label: expected string, got number",
+    ]);
+  });
+
+  it("detects refs that recurse without consuming data", () => {
+    const registry = new SchemaRegistry();
+    registry.register("A", { $ref: "B" });
+    registry.register("B", { $ref: "A" });
+    expect(validateAgainstSchema({}, { $ref: "A" }, registry).errors).toEqual(['$: circular $ref "A"']);
+  });
+
+  it("reports unresolvable refs with the data path", () => {
+    const schema: JSONSchema = { type: "object", properties: { step: { $ref: "#/$defs/Missing" } } };
+    expect(validateAgainstSchema({ step: {} }, schema).errors).toEqual(['$.step: unresolvable $ref "#/$defs/Missing"']);
+  });
+
+  it("resolves registry ids, with pointers into them", () => {
+    const registry = new SchemaRegistry();
+    registry.register("Shapes", { $defs: { Id: { type: "string", pattern: "^t-" } } });
+    expect(validateAgainstSchema("t-1", { $ref: "Shapes#/$defs/Id" }, registry).valid).toBe(true);
+    expect(validateAgainstSchema("x-1", { $ref: "Shapes#/$defs/Id" }, registry).valid).toBe(false);
+  });
+});
+
+describe("shared schema registry", () => {
+  it("drives both tool parameters and output schemas from one definition", () => {
+    const updateTask = TOOL_REGISTRY.find((t) => t.name === "updateTask")!;
+    const bad = { taskId: "task-001", updates: { status: "deleted" } };
+    expect(validateAgainstSchema(bad, updateTask.parameters).errors).toEqual(
+      validateAgainstSchema(bad, OUTPUT_SCHEMAS.TaskUpdate).errors
+    );
+
+    const createWorkflow = TOOL_REGISTRY.find((t) => t.name === "createWorkflow")!;
+    const workflow = { workflow: { name: "x", trigger: { type: "manual" }, steps: [{ type: "loop" }] } };
+    expect(validateAgainstSchema(workflow, createWorkflow.parameters).errors).toEqual([
+      "$.workflow.steps[0].type: must be one of [update, notify, condition]",
+    ]);
+    expect(validateAgainstSchema(workflow, OUTPUT_SCHEMAS.WorkflowDefinition).valid).toBe(false);
+  });
+});
+
+describe("dereferenceSchema", () => {
+  it("inlines registry refs", () => {
+    const inlined = dereferenceSchema(OUTPUT_SCHEMAS.TaskUpdate);
+    expect(JSON.stringify(inlined)).not.toContain("$ref");
+    expect(inlined.properties!.updates.properties!.status.enum).toEqual(["open", "in-progress", "urgent", "done"]);
+  });
+
+  it("throws on recursive schemas, naming the chain", () => {
+    expect(() => dereferenceSchema(TREE)).toThrow("Circular $ref: #/$defs/Node → #/$defs/Node");
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { validateAgainstSchema } from "@/core/schema-validator";
+import { OUTPUT_SCHEMAS } from "@/core/tools";
+import type { JSONSchema } from "@/core/types";
+
+function errorsFor(data: unknown, schema: JSONSchema): string[] {
+  return validateAgainstSchema(data, schema).errors;
+}
+
+describe("validateAgainstSchema", () => {
+  it("keeps the existing object checks and $.path messages", () => {
+    expect(errorsFor({ tasks: [{ id: "t1" }], extra: 1 }, OUTPUT_SCHEMAS.TaskList)).toEqual([
+      "$.tasks[0].title: required field missing",
+      "$.tasks[0].status: required field missing",
+      "$.extra: unexpected property",
+    ]);
+    expect(errorsFor({ taskId: "t1", updates: { status: "deleted" } }, OUTPUT_SCHEMAS.TaskUpdate)).toEqual([
+      "$.updates.status: must be one of [open, in-progress, urgent, done]",
+    ]);
+  });
+
+  it("supports integer, null and union type arrays", () => {
+    expect(errorsFor(3, { type: "integer" })).toEqual([]);
+    expect(errorsFor(3.5, { type: "integer" })).toEqual(["$: expected integer, got number"]);
+    expect(errorsFor(null, { type: ["string", "null"] })).toEqual([]);
+    expect(errorsFor(null, { type: "object" })).toEqual(["$: expected object, got null"]);
+    expect(errorsFor(1, { type: ["string", "null"] })).toEqual(["$: expected string | null, got number"]);
+  });
+
+  it("checks string length, pattern and format", () => {
+    const schema: JSONSchema = { type: "string", minLength: 2, maxLength: 4, pattern: "^[a-z]+$" };
+    expect(errorsFor("abc", schema)).toEqual([]);
+    expect(errorsFor("a", schema)).toEqual(["$: must be at least 2 characters, got 1"]);
+    expect(errorsFor("ABCDE", schema)).toEqual([
+      "$: must be at most 4 characters, got 5",
+      "$: must match pattern /^[a-z]+$/",
+    ]);
+
+    expect(errorsFor("2026-01-15T17:00:00.000Z", { type: "string", format: "date-time" })).toEqual([]);
+    expect(errorsFor("2026-13-45T99:00:00Z", { type: "string", format: "date-time" })).toEqual([
+      "$: must be a valid date-time",
+    ]);
+    expect(errorsFor("ops@onebeam.ai", { type: "string", format: "email" })).toEqual([]);
+    expect(errorsFor("not-an-email", { type: "string", format: "email" })).toHaveLength(1);
+    expect(errorsFor("https://onebeam.ai/tasks", { type: "string", format: "uri" })).toEqual([]);
+    expect(errorsFor("/relative/path", { type: "string", format: "uri" })).toHaveLength(1);
+  });
+
+  it("checks numeric bounds", () => {
+    const schema: JSONSchema = { type: "number", minimum: 0, maximum: 10 };
+    expect(errorsFor(10, schema)).toEqual([]);
+    expect(errorsFor(-1, schema)).toEqual(["$: must be >= 0, got -1"]);
+    expect(errorsFor(11, schema)).toEqual(["$: must be <= 10, got 11"]);
+  });
+
+  it("checks array size and uniqueness", () => {
+    const schema: JSONSchema = { type: "array", minItems: 1, maxItems: 3, uniqueItems: true };
+    expect(errorsFor([], schema)).toEqual(["$: must contain at least 1 items, got 0"]);
+    expect(errorsFor([{ a: 1 }, { a: 1 }], schema)).toEqual(["$[1]: duplicate of $[0]"]);
+    expect(errorsFor([1, 2, 3, 4], schema)).toEqual(["$: must contain at most 3 items, got 4"]);
+  });
+
+  it("supports const and non-string enums", () => {
+    expect(errorsFor("v1", { const: "v1" })).toEqual([]);
+    expect(errorsFor("v2", { const: "v1" })).toEqual(["$: must equal v1"]);
+    expect(errorsFor(2, { enum: [1, 2, null] })).toEqual([]);
+    expect(errorsFor(3, { enum: [1, 2, null] })).toEqual(["$: must be one of [1, 2, null]"]);
+  });
+
+  it("supports allOf, anyOf, oneOf and not", () => {
+    const named: JSONSchema = { type: "object", required: ["name"] };
+    const withId: JSONSchema = { type: "object", required: ["id"] };
+
+    expect(errorsFor({ name: "x" }, { allOf: [named, withId] })).toEqual(["$.id: required field missing"]);
+    expect(errorsFor({ name: "x" }, { anyOf: [named, withId] })).toEqual([]);
+    expect(errorsFor({}, { anyOf: [named, withId] })).toEqual([
+      "$: must match at least one schema in anyOf (#0: $.name: required field missing; #1: $.id: required field missing)",
+    ]);
+    expect(errorsFor({ name: "x", id: "1" }, { oneOf: [named, withId] })).toEqual([
+      "$: must match exactly one schema in oneOf, matched 2",
+    ]);
+    expect(errorsFor("urgent", { type: "string", not: { const: "urgent" } })).toEqual([
+      '$: must not match the schema in "not"',
+    ]);
+  });
+
+  it("validates additionalProperties given as a schema", () => {
+    const schema: JSONSchema = { type: "object", properties: { id: { type: "string" } }, additionalProperties: { type: "number" } };
+    expect(errorsFor({ id: "a", score: 1 }, schema)).toEqual([]);
+    expect(errorsFor({ id: "a", score: "high" }, schema)).toEqual(["$.score: expected number, got string"]);
+  });
+});
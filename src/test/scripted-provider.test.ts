@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from "vitest";
+import { ScriptedProvider, type ProviderScript } from "@/core/scripted-provider";
+import { OUTPUT_SCHEMAS } from "@/core/tools";
+import type { GenerateOptions } from "@/core/types";
+
+const SCRIPT: ProviderScript = {
+  entries: [
+    { match: "overdue", outputSchema: "WorkflowDefinition", turns: [{ reasoning: "workflow", data: { kind: "workflow" } }] },
+    { match: "overdue", turns: [{ reasoning: "any agent", data: { kind: "fallback" } }] },
+  ],
+};
+
+function options(userPrompt: string, outputSchema = OUTPUT_SCHEMAS.TaskList): GenerateOptions {
+  return { systemPrompt: "", userPrompt, tools: [], outputSchema };
+}
+
+describe("ScriptedProvider", () => {
+  it("picks the first entry matching the prompt and output schema", async () => {
+    const provider = new ScriptedProvider(SCRIPT);
+    expect((await provider.generateStructuredOutput(options("Escalate OVERDUE tasks", OUTPUT_SCHEMAS.WorkflowDefinition))).data)
+      .toEqual({ kind: "workflow" });
+    expect((await provider.generateStructuredOutput(options("escalate overdue tasks"))).data).toEqual({ kind: "fallback" });
+  });
+
+  it("throws when nothing matches", async () => {
+    await expect(new ScriptedProvider(SCRIPT).generateStructuredOutput(options("hello")))
+      .rejects.toThrow('No scripted response matches prompt: "hello"');
+  });
+
+  it("returns fresh copies so callers can mutate results", async () => {
+    const provider = new ScriptedProvider(SCRIPT);
+    const first = await provider.generateStructuredOutput(options("overdue"));
+    first.data.kind = "changed";
+    expect((await provider.generateStructuredOutput(options("overdue"))).data).toEqual({ kind: "fallback" });
+  });
+
+  it("waits a fixed latency", async () => {
+    vi.useFakeTimers();
+    try {
+      let settled = false;
+      const pending = new ScriptedProvider(SCRIPT, { latencyMs: 500 })
+        .generateStructuredOutput(options("overdue"))
+        .then(() => (settled = true));
+      await vi.advanceTimersByTimeAsync(499);
+      expect(settled).toBe(false);
+      await vi.advanceTimersByTimeAsync(1);
+      await pending;
+      expect(settled).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectStream,
+  normalizeAnthropicStream,
+  normalizeGeminiStream,
+  normalizeOpenAIStream,
+  withDoneEvent,
+  type AnthropicStreamEvent,
+  type GeminiStreamChunk,
+  type OpenAIStreamChunk,
+} from "@/core/streaming";
+import { ScriptedProvider } from "@/core/scripted-provider";
+import demoScript from "@/core/demo-script.json";
+import { TOOL_REGISTRY, OUTPUT_SCHEMAS } from "@/core/tools";
+import type { StreamEvent } from "@/core/types";
+
+async function* from<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+async function toArray<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+const EXPECTED: StreamEvent[] = [
+  { type: "reasoning_delta", text: "Need tasks." },
+  { type: "tool_call_start", index: 0, id: "c1", toolName: "readTask" },
+  { type: "tool_call_delta", index: 0, argumentsDelta: '{"taskId":' },
+  { type: "tool_call_delta", index: 0, argumentsDelta: '"task-001"}' },
+  { type: "tool_call_end", index: 0 },
+];
+
+describe("stream normalizers", () => {
+  it("normalizes OpenAI chunks", async () => {
+    const chunks: OpenAIStreamChunk[] = [
+      { choices: [{ index: 0, delta: { reasoning: "Need tasks." }, finish_reason: null }] },
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: "c1", type: "function", function: { name: "readTask", arguments: "" } }] }, finish_reason: null }] },
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '{"taskId":' } }] }, finish_reason: null }] },
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"task-001"}' } }] }, finish_reason: null }] },
+      { choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }] },
+    ];
+    expect(await toArray(normalizeOpenAIStream(from(chunks)))).toEqual(EXPECTED);
+  });
+
+  it("normalizes Anthropic events, re-indexing tool_use blocks", async () => {
+    const events: AnthropicStreamEvent[] = [
+      { type: "message_start" },
+      { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Need tasks." } },
+      { type: "content_block_stop", index: 0 },
+      { type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "c1", name: "readTask", input: {} } },
+      { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"taskId":' } },
+      { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '"task-001"}' } },
+      { type: "content_block_stop", index: 1 },
+      { type: "message_stop" },
+    ];
+    expect(await toArray(normalizeAnthropicStream(from(events)))).toEqual([
+      EXPECTED[0],
+      { type: "reasoning_block", vendor: "anthropic", block: { type: "thinking", thinking: "Need tasks.", signature: "" } },
+      ...EXPECTED.slice(1),
+    ]);
+  });
+
+  it("normalizes Gemini chunks with whole function calls", async () => {
+    const chunks: GeminiStreamChunk[] = [
+      { candidates: [{ content: { role: "model", parts: [{ text: "Need tasks.", thought: true }] } }] },
+      { candidates: [{ content: { role: "model", parts: [{ functionCall: { id: "c1", name: "readTask", args: { taskId: "task-001" } } }] }, finishReason: "STOP" }] },
+    ];
+    const events = await toArray(normalizeGeminiStream(from(chunks)));
+    expect(events).toEqual([
+      EXPECTED[0],
+      EXPECTED[1],
+      { type: "tool_call_delta", index: 0, argumentsDelta: '{"taskId":"task-001"}' },
+      EXPECTED[4],
+    ]);
+  });
+
+  it("accumulates events into a StructuredResult", async () => {
+    const events = from<StreamEvent>([...EXPECTED, { type: "output_delta", jsonDelta: '{"tasks":[]}' }]);
+    const result = await collectStream(withDoneEvent(events));
+    expect(result).toMatchObject({
+      success: true,
+      data: { tasks: [] },
+      reasoning: "Need tasks.",
+      toolCalls: [{ id: "c1", toolName: "readTask", arguments: { taskId: "task-001" }, status: "pending" }],
+    });
+  });
+
+  it("flags unparseable output", async () => {
+    const result = await collectStream(from<StreamEvent>([{ type: "output_delta", jsonDelta: '{"tasks":' }]));
+    expect(result.success).toBe(false);
+    expect(result.rawOutput).toBe('{"tasks":');
+  });
+});
+
+describe("provider streaming", () => {
+  it("streams the same result the scripted provider returns non-streamed", async () => {
+    const provider = new ScriptedProvider(demoScript);
+    const options = {
+      systemPrompt: "",
+      userPrompt: "Create a workflow that marks overdue tasks as urgent",
+      tools: TOOL_REGISTRY,
+      outputSchema: OUTPUT_SCHEMAS.WorkflowDefinition,
+    };
+    const streamed = await collectStream(provider.streamStructuredOutput(options));
+    const direct = await provider.generateStructuredOutput(options);
+    expect(streamed.data).toEqual(direct.data);
+    expect(streamed.reasoning).toEqual(direct.reasoning);
+    expect(streamed.toolCalls).toEqual(direct.toolCalls);
+  });
+});
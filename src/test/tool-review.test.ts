@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { approveUndecided, reviewToolCall } from "@/core/tool-review";
+import { runExecution } from "@/core/agent-runtime";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+import type { LogEntry, ToolCall } from "@/core/types";
+import { call, discussionWith } from "./helpers";
+
+const NOW = new Date("2026-01-01T00:00:00Z");
+
+function proposal(taskId: string, updates: Record<string, unknown>): ToolCall {
+  return call("updateTask", { taskId, updates }, { id: `call-${taskId}` });
+}
+
+describe("reviewToolCall", () => {
+  it("records the decision without touching the original call", () => {
+    const call = proposal("task-003", { priority: "high" });
+    const { call: reviewed, errors } = reviewToolCall(call, { decision: "approved", reviewer: "dana" }, NOW);
+
+    expect(errors).toEqual([]);
+    expect(reviewed.review).toEqual({ decision: "approved", reviewer: "dana", decidedAt: "2026-01-01T00:00:00.000Z" });
+    expect(call.review).toBeUndefined();
+  });
+
+  it("keeps the original arguments when an approval edits them", () => {
+    const call = proposal("task-003", { priority: "high" });
+    const edited = { taskId: "task-003", updates: { priority: "low" } };
+    const { call: reviewed } = reviewToolCall(call, { decision: "approved", reviewer: "dana", arguments: edited }, NOW);
+
+    expect(reviewed.arguments).toEqual(edited);
+    expect(reviewed.review?.originalArguments).toEqual(call.arguments);
+  });
+
+  it("refuses edits that fail the parameters schema", () => {
+    const call = proposal("task-003", { priority: "high" });
+    const { call: unchanged, errors } = reviewToolCall(
+      call,
+      { decision: "approved", reviewer: "dana", arguments: { updates: { priority: "high" } } },
+      NOW
+    );
+
+    expect(unchanged).toBe(call);
+    expect(errors.length).toBeGreaterThan(0);
+  });
+
+  it("approves only calls without a decision", () => {
+    const rejected = reviewToolCall(proposal("task-001", { status: "done" }), { decision: "rejected", reviewer: "dana" }, NOW).call;
+    const calls = approveUndecided([rejected, proposal("task-002", { status: "done" })], "ops", NOW);
+
+    expect(calls.map((c) => [c.review?.decision, c.review?.reviewer])).toEqual([
+      ["rejected", "dana"],
+      ["approved", "ops"],
+    ]);
+    expect(calls[1].review?.bulk).toBe(true);
+  });
+
+  it("leaves calls a policy marks require_approval for an individual decision", () => {
+    const reassign: ToolCall = {
+      ...proposal("task-003", { assignee: "bob" }),
+      policy: { effect: "require_approval", matched: [{ id: "reassign-needs-approval", effect: "require_approval", reason: "r" }] },
+    };
+
+    expect(approveUndecided([reassign], "ops", NOW)).toEqual([reassign]);
+  });
+});
+
+describe("runExecution with reviews", () => {
+  it("runs approved calls only and reports rejected and unreviewed ones", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const proposals = [
+      proposal("task-003", { priority: "high" }),
+      proposal("task-002", { priority: "low" }),
+      proposal("task-001", { priority: "low" }),
+    ];
+    const discussion = discussionWith(proposals);
+    const approved = reviewToolCall(
+      proposals[0],
+      { decision: "approved", reviewer: "dana", arguments: { taskId: "task-003", updates: { priority: "low" } } },
+      NOW
+    ).call;
+    const rejected = reviewToolCall(proposals[1], { decision: "rejected", reviewer: "dana" }, NOW).call;
+    const before = await store.getTask("task-001");
+
+    const result = await runExecution(
+      { ...discussion, approvedCalls: [approved, rejected, proposals[2]] },
+      { agent: "task-agent", input: "" },
+      { store }
+    );
+
+    expect(result.approvedCalls.map((c) => c.status)).toEqual(["executed", "rejected", "approved"]);
+    expect(result.approvedCalls[1].rejection).toEqual({ reason: "user_rejected", message: "Rejected by dana: updateTask" });
+    expect((await store.getTask("task-003"))?.priority).toBe("low");
+    expect((await store.getTask("task-001"))?.priority).toBe(before?.priority);
+    expect(result.logs.some((l) => l.message === "Approved by dana: updateTask (arguments edited)")).toBe(true);
+    expect(result.logs.at(-1)?.message).toBe(
+      "Execution complete. 1 tool calls executed, 0 failed. 1 rejected by reviewer. 1 skipped without approval."
+    );
+  });
+
+  it("keeps the discussion logs when the output fails re-validation", async () => {
+    const log: LogEntry = {
+      id: "log-1", seq: 0, prevHash: "", hash: "", timestamp: NOW, phase: "discussion",
+      model: "gpt-5.2", agent: "task-agent", type: "plan", message: "discussion log",
+    };
+    const discussion = { ...discussionWith([], { taskId: "task-003" }), logs: [log] };
+
+    const result = await runExecution(discussion, { agent: "task-agent", input: "" }, { store: new InMemoryDataStore() });
+
+    expect(result.validationPassed).toBe(false);
+    expect(result.logs[0]).toBe(log);
+    expect(result.logs.at(-1)?.message).toBe("Execution aborted: output failed re-validation");
+  });
+});
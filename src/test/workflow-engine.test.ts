@@ -0,0 +1,296 @@
+import { describe, it, expect } from "vitest";
+import { WorkflowEngine, type WorkflowNotification } from "@/core/workflow-engine";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+import { ManualClock } from "@/core/schedule";
+import type { WorkflowInput } from "@/core/types";
+
+const ESCALATION: WorkflowInput = {
+  name: "Overdue → Urgent Escalation",
+  trigger: { type: "event", event: "task.overdue" },
+  steps: [
+    { type: "update", entity: "Task", update: { status: "urgent" } },
+    { type: "notify", entity: "User", update: { message: "Task escalated to urgent" } },
+  ],
+};
+
+async function setup(options: Partial<ConstructorParameters<typeof WorkflowEngine>[0]> = {}) {
+  const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+  const notifications: WorkflowNotification[] = [];
+  const engine = new WorkflowEngine({
+    store,
+    clock: new ManualClock("2026-01-12T09:00:00Z"),
+    onNotify: (n) => notifications.push(n),
+    ...options,
+  });
+  await engine.start();
+  return { store, engine, notifications };
+}
+
+describe("workflow engine", () => {
+  it("registers created workflows and runs them on overdue tasks", async () => {
+    const { store, engine, notifications } = await setup();
+    const workflow = await store.createWorkflow(ESCALATION);
+    await engine.idle();
+    expect(engine.registered().map((w) => w.id)).toEqual([workflow.id]);
+
+    // Only task-002 is past due on 2026-01-12; reporting is once per due date
+    await engine.checkOverdue();
+    await engine.checkOverdue();
+
+    expect((await store.getTask("task-002"))?.status).toBe("urgent");
+    expect((await store.getTask("task-001"))?.status).toBe("open");
+    expect(notifications.map((n) => [n.taskId, n.message])).toEqual([["task-002", "Task escalated to urgent"]]);
+    expect(engine.runs()).toMatchObject([
+      {
+        workflowId: workflow.id,
+        event: "task.overdue",
+        taskId: "task-002",
+        status: "completed",
+        steps: [
+          { index: 0, type: "update", status: "ok", message: "Updated task task-002" },
+          { index: 1, type: "notify", status: "ok", message: "Notified: Task escalated to urgent" },
+        ],
+      },
+    ]);
+  });
+
+  it("stops a run when a condition step does not hold", async () => {
+    const { store, engine, notifications } = await setup();
+    await store.createWorkflow({
+      name: "Escalate critical work",
+      trigger: { type: "event", event: "task.updated" },
+      steps: [
+        { type: "condition", condition: 'task.priority in ["high", "critical"]' },
+        { type: "notify", update: { message: "High-priority task changed" } },
+      ],
+    });
+
+    await store.updateTask("task-003", { status: "in-progress" }); // medium priority
+    await store.updateTask("task-001", { status: "in-progress" }); // high priority
+    await engine.idle();
+
+    expect(engine.runs().map((r) => [r.taskId, r.status])).toEqual([
+      ["task-003", "halted"],
+      ["task-001", "completed"],
+    ]);
+    expect(notifications.map((n) => n.taskId)).toEqual(["task-001"]);
+  });
+
+  it("checks update steps against the principal's scope and the tool schema", async () => {
+    const { store, engine } = await setup({
+      principal: { name: "design-bot", allowedTools: ["updateTask"], permissions: ["write:tasks[project=design]"] },
+    });
+    await store.createWorkflow({ name: "Close new", trigger: { type: "event", event: "task.created" }, steps: [{ type: "update", update: { status: "done" } }] });
+    await store.createWorkflow({ name: "Bad update", trigger: { type: "event", event: "task.created" }, steps: [{ type: "update", update: { status: "archived" } }] });
+
+    const platform = await store.createTask({ title: "Rotate keys", status: "open", priority: "high", project: "platform" });
+    const design = await store.createTask({ title: "New icons", status: "open", priority: "low", project: "design" });
+    await engine.idle();
+
+    expect((await store.getTask(platform.id))?.status).toBe("open");
+    expect((await store.getTask(design.id))?.status).toBe("done");
+    const [blocked, invalid] = engine.runs().filter((r) => r.taskId === platform.id);
+    expect(blocked.status).toBe("failed");
+    expect(blocked.steps[0].message).toMatch(/^BLOCKED: Target is outside the agent's scope/);
+    expect(invalid.steps[0].message).toMatch(/^BLOCKED: Invalid arguments for updateTask/);
+  });
+
+  it("does not re-run a workflow for a task its own cascade is handling", async () => {
+    const { store, engine } = await setup();
+    await store.createWorkflow({ name: "Bump", trigger: { type: "event", event: "task.updated" }, steps: [{ type: "update", update: { priority: "critical" } }] });
+
+    await store.updateTask("task-003", { status: "in-progress" });
+    await engine.idle();
+
+    expect(engine.runs()).toHaveLength(1);
+  });
+
+  it("attributes cascades to the run that caused them and bounds their depth", async () => {
+    const workflows = async (store: InMemoryDataStore) => {
+      await store.createWorkflow({ name: "Prioritize", trigger: { type: "event", event: "task.updated" }, steps: [{ type: "update", update: { priority: "high" } }] });
+      await store.createWorkflow({ name: "Start", trigger: { type: "event", event: "task.updated" }, steps: [{ type: "update", update: { status: "in-progress" } }] });
+    };
+
+    const { store, engine } = await setup();
+    await workflows(store);
+    await store.updateTask("task-003", { assignee: "bob" });
+    await engine.idle();
+    expect(engine.runs().map((r) => [r.id, r.workflowName, r.causedBy])).toEqual([
+      ["wfrun-1", "Prioritize", undefined],
+      ["wfrun-2", "Start", undefined],
+      ["wfrun-3", "Start", "wfrun-1"],
+      ["wfrun-4", "Prioritize", "wfrun-2"],
+    ]);
+
+    const bounded = await setup({ maxCascadeDepth: 0 });
+    await workflows(bounded.store);
+    await bounded.store.updateTask("task-003", { assignee: "bob" });
+    await bounded.engine.idle();
+    expect(bounded.engine.runs()).toHaveLength(2);
+  });
+
+  it("does not count writes outside a run's steps as its cascade", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    // Stands in for another writer that happens to act, once, while a run is in progress
+    let wrote = false;
+    const onNotify = () => {
+      if (wrote) return;
+      wrote = true;
+      void store.updateTask("task-001", { status: "done" });
+    };
+    const engine = new WorkflowEngine({ store, onNotify });
+    await engine.start();
+    await store.createWorkflow({ name: "Announce", trigger: { type: "event", event: "task.updated" }, steps: [{ type: "notify" }] });
+
+    await store.updateTask("task-003", { status: "in-progress" });
+    await engine.idle();
+
+    expect(engine.runs().map((r) => [r.taskId, r.causedBy])).toEqual([
+      ["task-003", undefined],
+      ["task-001", undefined],
+    ]);
+  });
+
+  it("reloads the task before each step", async () => {
+    const { store, engine, notifications } = await setup();
+    await store.createWorkflow({
+      name: "Escalate and confirm",
+      trigger: { type: "event", event: "task.created" },
+      steps: [
+        { type: "update", update: { status: "urgent" } },
+        { type: "condition", condition: 'task.status == "urgent"' },
+        { type: "notify", update: { message: "Escalated" } },
+      ],
+    });
+
+    await store.createTask({ title: "Rotate keys", status: "open", priority: "low" });
+    await engine.idle();
+
+    expect(engine.runs()[0].status).toBe("completed");
+    expect(notifications.map((n) => n.message)).toEqual(["Escalated"]);
+  });
+
+  it("records a throwing step as a failed run and keeps draining", async () => {
+    const errors: unknown[] = [];
+    const { store, engine } = await setup({
+      onNotify: (n) => {
+        if (n.taskId === "task-003") throw new Error("mail server down");
+      },
+      onError: (err) => errors.push(err),
+    });
+    await store.createWorkflow({ name: "Announce", trigger: { type: "event", event: "task.updated" }, steps: [{ type: "notify" }] });
+    const unsubscribe = engine.subscribe((run) => {
+      if (run.taskId === "task-002") throw new Error("listener bug");
+    });
+
+    await store.updateTask("task-003", { status: "in-progress" });
+    await store.updateTask("task-002", { status: "done" });
+    await store.updateTask("task-001", { status: "done" });
+    await engine.idle();
+    unsubscribe();
+
+    expect(engine.runs().map((r) => [r.taskId, r.status])).toEqual([
+      ["task-003", "failed"],
+      ["task-002", "completed"],
+      ["task-001", "completed"],
+    ]);
+    expect(engine.runs()[0].steps[0].message).toBe("mail server down");
+    expect(errors.map((e) => (e as Error).message)).toEqual(["listener bug"]);
+  });
+
+  it("fires cron and interval workflows as the clock advances", async () => {
+    const clock = new ManualClock("2026-01-12T08:30:00Z"); // a Monday
+    const { store, engine } = await setup({ clock });
+    const digest = await store.createWorkflow({
+      name: "Weekday digest",
+      trigger: { type: "cron", schedule: "0 9 * * 1-5" },
+      steps: [{ type: "notify", update: { message: "Daily digest" } }],
+    });
+    const sweep = await store.createWorkflow({
+      name: "Sweep",
+      trigger: { type: "interval", everyMinutes: 360 },
+      steps: [{ type: "notify", update: { message: "Sweep" } }],
+    });
+    await engine.idle();
+    const fired = (id: string) => engine.runs().filter((r) => r.workflowId === id);
+
+    await clock.advance(5 * 24 * 3_600_000); // to Saturday 08:30
+
+    expect(fired(digest.id).map((r) => r.startedAt)).toEqual(
+      ["12", "13", "14", "15", "16"].map((day) => `2026-01-${day}T09:00:00.000Z`)
+    );
+    expect(fired(digest.id)[0]).toMatchObject({ event: "schedule.fired", status: "completed" });
+    expect(fired(sweep.id)).toHaveLength(20);
+    expect(fired(sweep.id)[0].startedAt).toBe("2026-01-12T14:30:00.000Z");
+
+    await store.deleteWorkflow(sweep.id);
+    await engine.idle();
+    await clock.advance(2 * 24 * 3_600_000); // the weekend
+
+    expect(fired(digest.id)).toHaveLength(5);
+    expect(fired(sweep.id)).toHaveLength(20);
+    expect(clock.pendingTimers()).toBe(2); // Monday's digest and the next overdue check
+    engine.stop();
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it("checks for overdue tasks on its clock until stopped", async () => {
+    const clock = new ManualClock("2026-01-12T09:00:00Z");
+    const { store, engine, notifications } = await setup({ clock, overdueCheckMs: 60_000 });
+    await store.createWorkflow(ESCALATION);
+    await engine.idle();
+
+    await clock.advance(59_000);
+    expect(engine.runs()).toEqual([]);
+    await clock.advance(1_000); // task-002 is past due
+    expect(notifications.map((n) => n.taskId)).toEqual(["task-002"]);
+
+    await clock.advance(4 * 24 * 3_600_000); // task-001 falls due on the 15th
+    expect(engine.runs().map((r) => [r.taskId, r.startedAt])).toEqual([
+      ["task-002", "2026-01-12T09:01:00.000Z"],
+      ["task-001", "2026-01-15T17:01:00.000Z"],
+    ]);
+    engine.stop();
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it("runs update steps under the task agent's policies by default", async () => {
+    const { store, engine } = await setup();
+    await store.createWorkflow({
+      name: "Escalate everything",
+      trigger: { type: "event", event: "task.created" },
+      steps: [{ type: "update", update: { priority: "critical" } }],
+    });
+    await store.createTask({ title: "Rotate keys", status: "open", priority: "low", assignee: "alice" });
+    await engine.idle();
+
+    expect(engine.runs()[0]).toMatchObject({ status: "failed" });
+    expect(engine.runs()[0].steps[0].message).toMatch(/^BLOCKED by policy "critical-only-own-tasks"/);
+    expect((await store.listTasks()).at(-1)?.priority).toBe("low");
+  });
+
+  it("runs workflows on demand", async () => {
+    const { store, engine, notifications } = await setup();
+    const report = await store.createWorkflow({
+      name: "Report",
+      trigger: { type: "manual" },
+      steps: [{ type: "notify", update: { message: "Report requested" } }],
+    });
+    await engine.idle();
+
+    await engine.trigger(report.id);
+    await expect(engine.trigger("wf-missing")).rejects.toThrow('Unknown workflow "wf-missing"');
+    expect(engine.runs().map((r) => r.event)).toEqual(["manual"]);
+    expect(notifications.map((n) => n.message)).toEqual(["Report requested"]);
+  });
+
+  it("stops running a workflow once it is deleted", async () => {
+    const { store, engine } = await setup();
+    const workflow = await store.createWorkflow(ESCALATION);
+    await store.deleteWorkflow(workflow.id);
+    await engine.checkOverdue();
+
+    expect(engine.registered()).toEqual([]);
+    expect(engine.runs()).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildWorkflowGraph,
+  editWorkflowCall,
+  errorsByStep,
+  findWorkflowCall,
+  validateWorkflowDefinition,
+} from "@/core/workflow-graph";
+import { runExecution, type AgentRunResult } from "@/core/agent-runtime";
+import { getDefaultPlanSigner } from "@/core/plan-seal";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+import type { ToolCall, WorkflowInput } from "@/core/types";
+
+const NOW = new Date("2026-01-01T00:00:00Z");
+
+const ESCALATION: WorkflowInput = {
+  name: "Escalate urgent work",
+  trigger: { type: "event", event: "task.overdue" },
+  steps: [
+    { type: "condition", condition: 'task.priority in ["high", "critical"]' },
+    { type: "update", update: { status: "urgent" } },
+    { type: "notify", update: { message: "Escalated" } },
+  ],
+};
+
+const proposal = (workflow: WorkflowInput): ToolCall => ({
+  id: "call-wf",
+  toolName: "createWorkflow",
+  arguments: { workflow },
+  status: "approved",
+});
+
+describe("buildWorkflowGraph", () => {
+  it("chains trigger and steps, branching at conditions", () => {
+    const graph = buildWorkflowGraph(ESCALATION);
+
+    expect(graph.nodes.map((n) => [n.id, n.label])).toEqual([
+      ["trigger", "on task.overdue"],
+      ["step-0", 'if task.priority in ["high", "critical"]'],
+      ["step-1", 'update task: status = "urgent"'],
+      ["step-2", "notify: Escalated"],
+      ["done", "Done"],
+      ["halted", "Halted"],
+    ]);
+    expect(graph.edges).toEqual([
+      { from: "trigger", to: "step-0" },
+      { from: "step-0", to: "halted", branch: "fails" },
+      { from: "step-0", to: "step-1", branch: "holds" },
+      { from: "step-1", to: "step-2" },
+      { from: "step-2", to: "done" },
+    ]);
+  });
+
+  it("has no halted node without conditions", () => {
+    const graph = buildWorkflowGraph({ name: "Digest", trigger: { type: "cron", schedule: "0 9 * * 1-5" }, steps: [] });
+    expect(graph.nodes.map((n) => n.label)).toEqual(["cron 0 9 * * 1-5 (UTC)", "Done"]);
+    expect(graph.edges).toEqual([{ from: "trigger", to: "done" }]);
+  });
+});
+
+describe("workflow edits", () => {
+  it("groups definition errors by step", () => {
+    const errors = validateWorkflowDefinition({
+      workflow: { ...ESCALATION, steps: [{ type: "condition", condition: "task.priority == 'urgent'" }] },
+      extra: true,
+    });
+    const { workflow, steps } = errorsByStep(errors);
+
+    expect(workflow).toEqual(["$.extra: unexpected property"]);
+    expect([...steps.keys()]).toEqual([0]);
+    expect(steps.get(0)![0]).toMatch(/^\$\.workflow\.steps\[0\]\.condition: must be a valid workflow-condition/);
+  });
+
+  it("approves the createWorkflow call with the edited definition", () => {
+    const call = proposal(ESCALATION);
+    const steps = [ESCALATION.steps[0], { type: "update" as const, update: { status: "urgent", assignee: "lead" } }];
+    const { call: edited, errors } = editWorkflowCall(call, { ...ESCALATION, steps }, "dana", NOW);
+
+    expect(errors).toEqual([]);
+    expect(edited.arguments).toEqual({ workflow: { ...ESCALATION, steps } });
+    expect(edited.review).toMatchObject({ decision: "approved", reviewer: "dana", originalArguments: { workflow: ESCALATION } });
+    expect(findWorkflowCall([edited])).toEqual({ index: 0, workflow: { ...ESCALATION, steps } });
+  });
+
+  it("refuses edits that break the definition schema", () => {
+    const call = proposal(ESCALATION);
+    const { call: unchanged, errors } = editWorkflowCall(
+      call,
+      { ...ESCALATION, steps: [{ type: "condition", condition: "task.dueDate <" }] },
+      "dana",
+      NOW
+    );
+
+    expect(unchanged).toBe(call);
+    expect(errors).toEqual(["$.workflow.steps[0].condition: must be a valid workflow-condition: at 14: unexpected end of expression"]);
+  });
+
+  it("executes the edited workflow under the original seal", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const discussion: AgentRunResult = {
+      phase: "discussion",
+      model: "gpt-5.2",
+      result: { success: true, data: { workflow: ESCALATION }, toolCalls: [proposal(ESCALATION)] },
+      logs: [],
+      validationPassed: true,
+      blockedCalls: [],
+      approvedCalls: [proposal(ESCALATION)],
+      readCalls: [],
+      turns: 1,
+    };
+    const sealed = { ...discussion, plan: getDefaultPlanSigner().seal(discussion, "workflow-agent") };
+    const steps = ESCALATION.steps.slice(1);
+    const { call } = editWorkflowCall(sealed.approvedCalls[0], { ...ESCALATION, steps }, "dana", NOW);
+
+    const result = await runExecution({ ...sealed, approvedCalls: [call] }, { agent: "workflow-agent", input: "" }, { store });
+
+    expect(result.logs.map((l) => l.message)).toContain("Approved by dana: createWorkflow (arguments edited)");
+    expect((await store.listWorkflows()).map((w) => w.steps)).toEqual([steps]);
+  });
+});
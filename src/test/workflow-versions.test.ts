@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { describeWorkflowDiff, diffAgainstCurrent, diffWorkflows } from "@/core/workflow-versions";
+import { dryRunToolCalls } from "@/core/dry-run";
+import { WorkflowEngine } from "@/core/workflow-engine";
+import { ManualClock } from "@/core/schedule";
+import { InMemoryDataStore, SEED_TASKS } from "@/core/store";
+import type { WorkflowInput, WorkflowStep } from "@/core/types";
+
+const CHECK: WorkflowStep = { type: "condition", condition: 'task.priority in ["high", "critical"]' };
+const ESCALATE: WorkflowStep = { type: "update", update: { status: "urgent" } };
+const NOTIFY: WorkflowStep = { type: "notify", update: { message: "Escalated" } };
+
+const V1: WorkflowInput = { name: "Escalate", trigger: { type: "event", event: "task.overdue" }, steps: [ESCALATE, NOTIFY] };
+
+describe("diffWorkflows", () => {
+  it("reports an inserted step without marking the steps after it", () => {
+    const diff = diffWorkflows(V1, { ...V1, steps: [CHECK, ESCALATE, NOTIFY] });
+    expect(diff).toEqual({ steps: [{ kind: "added", index: 0, step: CHECK }], unchanged: false });
+  });
+
+  it("pairs a replaced step as a change and lists its changed fields", () => {
+    const louder = { type: "notify" as const, update: { message: "Escalated to urgent" } };
+    const diff = diffWorkflows(V1, { ...V1, trigger: { type: "cron", schedule: "0 9 * * *" }, steps: [ESCALATE, louder] });
+
+    expect(diff.steps).toEqual([{ kind: "changed", index: 1, before: NOTIFY, after: louder, fields: ["update"] }]);
+    expect(describeWorkflowDiff(diff)).toEqual([
+      "~ trigger: on task.overdue → cron 0 9 * * * (UTC)",
+      "~ step 2: notify: Escalated → notify: Escalated to urgent",
+    ]);
+  });
+
+  it("reports removals by their index in the older version", () => {
+    const diff = diffWorkflows({ ...V1, steps: [CHECK, ESCALATE, NOTIFY] }, { ...V1, steps: [ESCALATE] });
+    expect(describeWorkflowDiff(diff)).toEqual([
+      '- step 1: if task.priority in ["high", "critical"]',
+      "- step 3: notify: Escalated",
+    ]);
+    expect(diffWorkflows(V1, structuredClone(V1)).unchanged).toBe(true);
+  });
+});
+
+describe("workflow versions in the store", () => {
+  it("keeps every version and rolls back by saving an earlier one again", async () => {
+    const store = new InMemoryDataStore();
+    const first = await store.createWorkflow(V1);
+    const second = await store.createWorkflow({ ...V1, steps: [CHECK, ESCALATE, NOTIFY] });
+
+    expect([first.id, first.version, second.id, second.version]).toEqual(["wf-001", 1, "wf-001", 2]);
+    expect(await diffAgainstCurrent({ ...V1, steps: [CHECK, ESCALATE] }, store)).toMatchObject({
+      current: { version: 2 },
+      diff: { steps: [{ kind: "removed", index: 2 }] },
+    });
+    expect(await diffAgainstCurrent({ ...V1, name: "Other" }, store)).toBeNull();
+
+    const restored = await store.rollbackWorkflow("wf-001", 1);
+    expect(restored).toMatchObject({ version: 3, restoredFrom: 1, steps: V1.steps });
+    expect((await store.listWorkflowVersions("wf-001")).map((w) => w.version)).toEqual([1, 2, 3]);
+    await expect(store.rollbackWorkflow("wf-001", 3)).rejects.toThrow("Workflow wf-001 is already at version 3");
+    await expect(store.rollbackWorkflow("wf-001", 9)).rejects.toThrow("Workflow wf-001 has no version 9");
+  });
+
+  it("never reuses a workflow id after a delete", async () => {
+    const store = new InMemoryDataStore();
+    const first = await store.createWorkflow(V1);
+    await store.createWorkflow({ ...V1, name: "Second" });
+    await store.deleteWorkflow(first.id);
+
+    // A snapshot, as dry runs take, holds only wf-002
+    const snapshot = new InMemoryDataStore({ workflows: await store.listWorkflows() });
+    expect((await snapshot.createWorkflow({ ...V1, name: "Third" })).id).toBe("wf-003");
+    expect((await store.createWorkflow({ ...V1, name: "Third" })).id).toBe("wf-003");
+  });
+
+  it("previews a re-saved workflow as an update of the current version", async () => {
+    const store = new InMemoryDataStore({ workflows: [{ ...V1, id: "wf-001", version: 1, createdAt: "2026-01-01T00:00:00.000Z" }] });
+    const { diffs } = await dryRunToolCalls(
+      [{ id: "c1", toolName: "createWorkflow", arguments: { workflow: { ...V1, steps: [CHECK, ...V1.steps] } }, status: "approved" }],
+      store
+    );
+
+    expect(diffs).toEqual([
+      {
+        entity: "workflow",
+        id: "wf-001",
+        name: "Escalate",
+        change: "updated",
+        fields: [
+          { field: "steps", before: V1.steps, after: [CHECK, ...V1.steps] },
+          { field: "version", before: 1, after: 2 },
+        ],
+      },
+    ]);
+  });
+
+  it("runs whichever version is current", async () => {
+    const store = new InMemoryDataStore({ tasks: SEED_TASKS });
+    const engine = new WorkflowEngine({ store, clock: new ManualClock("2026-01-12T09:00:00Z") });
+    await engine.start();
+    await store.createWorkflow(V1);
+    await store.createWorkflow({ ...V1, steps: [{ type: "condition", condition: "task.priority == 'low'" }, ESCALATE] });
+    await engine.checkOverdue(); // task-002 is critical: version 2 halts
+
+    await store.rollbackWorkflow("wf-001", 1);
+    await store.updateTask("task-002", { dueDate: "2026-01-11T17:00:00.000Z" }); // overdue again, on a new due date
+    await engine.checkOverdue();
+
+    expect(engine.runs().map((r) => r.status)).toEqual(["halted", "completed"]);
+    expect(engine.registered()).toMatchObject([{ version: 3 }]);
+  });
+});